@@ -241,7 +241,10 @@ function createTableRow(option, item, group, config, bind) {
 }
 
 function bindAddButton(option, button) {
-    if (option['ui-type'].includes('java-package') || option['ui-type'].includes('select-many')) {
+    const uiType = option['ui-type'];
+    // text values without a file or directory to browse for are typed in
+    const textOnly = uiType.includes('text') && !uiType.includes('file_or_directory');
+    if (uiType.includes('java-package') || uiType.includes('select-many') || textOnly) {
         button.onclick = () => {
             showEditDialog(option.name, undefined);
         };
@@ -394,6 +397,10 @@ function renderSingleOption(option, config) {
     details.appendChild(group);
     const top = document.createElement('dd');
     group.appendChild(top);
+    if (option['ui-type'].includes('select-one')) {
+        top.appendChild(createSelectOne(option));
+        return;
+    }
     const widget = document.createElement('input');
     widget.id = `${option.name}-input`;
     // widget.classList.add('form-control', 'form-input', 'input-sm');
@@ -445,6 +452,24 @@ function renderSingleOption(option, config) {
     }
 }
 
+function createSelectOne(option) {
+    const select = document.createElement('select');
+    select.id = `${option.name}-input`;
+    select.classList.add('new-input');
+    select.style.width = '100%';
+    // the empty choice leaves the option unset, so that its default applies
+    ['', ...option['available-options']].forEach(value => {
+        const item = document.createElement('option');
+        item.value = value;
+        item.textContent = value || '(default)';
+        select.appendChild(item);
+    });
+    select.onchange = () => {
+        updateOption({ name: option.name, value: select.value });
+    };
+    return select;
+}
+
 function bindOptions(data, config) {
     data.options.forEach((element) => bindOption(element, config));
     if (!$(`#name-input`).is(":focus")) {
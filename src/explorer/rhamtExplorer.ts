@@ -10,11 +10,22 @@ import { RhamtConfiguration } from '../server/analyzerModel';
 import { MarkerService } from '../source/markers';
 import { Grouping } from '../tree/configurationNode';
 import { AnalyzerUtil } from '../server/analyzerUtil';
+import { AnalyzerResults } from '../server/analyzerResults';
+import { AnalyzerRunLog } from '../server/analyzerRunLog';
+import { AnalysisFailedError } from '../server/analyzerRunner';
+import { RunItem } from '../tree/runItem';
 import { rhamtChannel } from '../util/console';
+import { FileNode } from '../tree/fileNode';
+import * as fs from 'fs-extra';
+
+const REANALYZE_DELAY = 1500;
 
 export class RhamtExplorer {
 
     private dataProvider: DataProvider;
+    private pendingReanalysis = new Map<RhamtConfiguration, Set<string>>();
+    private reanalysisTimer: NodeJS.Timer | undefined;
+    private reanalysis: Promise<void> = Promise.resolve();
 
     private grouping: Grouping = {
         groupByFile: true,
@@ -156,6 +167,8 @@ export class RhamtExplorer {
             const config = item.config as RhamtConfiguration;
             try {
                 AnalyzerUtil.updateRunEnablement(false, this.dataProvider, config);
+                // the analyzer may clear the output location, which holds the state of the incidents
+                const incidentState = await AnalyzerResults.readState(config);
                 await AnalyzerUtil.analyze(
                     this.dataProvider,
                     config,
@@ -166,6 +179,9 @@ export class RhamtExplorer {
                         this.refreshConfigurations();
                     },
                     () => {});
+                    if (incidentState) {
+                        await AnalyzerResults.writeState(config, incidentState);
+                    }
                     if (config.cancelled) {
                         rhamtChannel.print('\nAnalysis canceled');
                         return;
@@ -191,16 +207,134 @@ export class RhamtExplorer {
             } catch (e) {
                 console.log(e);
                 rhamtChannel.print('\nAnalysis failed');
-                if (!e.notified) {
+                if (e instanceof AnalysisFailedError) {
+                    this.showAnalysisFailure(e);
+                }
+                else if (!e.notified) {
                     vscode.window.showErrorMessage(`Error running analysis - ${e}`);
                 }
                 AnalyzerUtil.updateRunEnablement(true, this.dataProvider, config);
                 this.refreshConfigurations();
+                const configNode = this.dataProvider.getConfigurationNode(config);
+                if (configNode) {
+                    configNode.loadRunHistory();
+                }
+            }
+        }));
+        this.context.subscriptions.push(vscode.commands.registerCommand('rhamt.openAnalyzerRunLog', async (item: RunItem) => {
+            const location = AnalyzerRunLog.getLogLocation(item.config, item.record);
+            if (!location || !await fs.pathExists(location)) {
+                return vscode.window.showErrorMessage(`Unable to find the log of the run on filesystem`);
+            }
+            vscode.window.showTextDocument(vscode.Uri.file(location), { preview: true });
+        }));
+        this.context.subscriptions.push(vscode.commands.registerCommand('rhamt.showAnalyzerRunDetails', async (item: RunItem) => {
+            const location = AnalyzerRunLog.getRecordLocation(item.config, item.record);
+            if (!location || !await fs.pathExists(location)) {
+                return vscode.window.showErrorMessage(`Unable to find the record of the run on filesystem`);
+            }
+            vscode.window.showTextDocument(vscode.Uri.file(location), { preview: true });
+        }));
+        this.context.subscriptions.push(vscode.commands.registerCommand('rhamt.resolveIncidents', async (incidentIds: string[]) => {
+            for (const config of this.modelService.model.configurations.filter(config => config.results)) {
+                const hints = config.results.model.hints.filter(hint => incidentIds.includes(hint.id) && !hint.complete);
+                if (hints.length === 0) {
+                    continue;
+                }
+                const configNode = this.dataProvider.getConfigurationNode(config);
+                hints.forEach(hint => {
+                    const node = configNode ? configNode.getIssueNode(hint) : undefined;
+                    if (node) {
+                        configNode.setComplete(node, true, 'kai');
+                    }
+                    else {
+                        hint.complete = true;
+                        config.markIssueAsComplete(hint, true, 'kai');
+                        this.markerService.refreshOpenEditors(hint.file);
+                    }
+                });
+                await this.modelService.saveAnalysisResults(config).catch(e => {
+                    console.log(`Error saving analysis results: ${e}`);
+                });
             }
         }));
+        this.context.subscriptions.push(vscode.commands.registerCommand('rhamt.reanalyzeFiles', (item: FileNode | string[], selection?: any[]) => {
+            if (Array.isArray(item)) {
+                // files changed elsewhere, e.g. by an accepted Kai fix
+                item.forEach(file => this.modelService.model.configurations
+                    .filter(config => config.results && config.results.model.issueByFile.has(file))
+                    .forEach(config => this.scheduleReanalysis(config, file)));
+                return;
+            }
+            const nodes = (selection || [item]).filter(node => node instanceof FileNode) as FileNode[];
+            nodes.forEach(node => this.scheduleReanalysis(node.config, node.file));
+        }));
         AnalyzerUtil.updateRunEnablement(true, this.dataProvider, null);
     }
 
+    /**
+     * Files scheduled in quick succession, such as those of several accepted fixes, are analyzed in one run per configuration.
+     */
+    private scheduleReanalysis(config: RhamtConfiguration, file: string): void {
+        const files = this.pendingReanalysis.get(config) || new Set<string>();
+        files.add(file);
+        this.pendingReanalysis.set(config, files);
+        if (this.reanalysisTimer) {
+            clearTimeout(this.reanalysisTimer);
+        }
+        this.reanalysisTimer = setTimeout(() => {
+            this.reanalysisTimer = undefined;
+            const pending = Array.from(this.pendingReanalysis.entries());
+            this.pendingReanalysis.clear();
+            this.reanalysis = this.reanalysis.then(async () => {
+                for (const [config, files] of pending) {
+                    await this.reanalyze(config, Array.from(files));
+                }
+            });
+        }, REANALYZE_DELAY);
+    }
+
+    private async reanalyze(config: RhamtConfiguration, files: string[]): Promise<void> {
+        try {
+            await AnalyzerUtil.analyzeFiles(config, files);
+            const configNode = this.dataProvider.getConfigurationNode(config);
+            if (configNode) {
+                configNode.loadResults();
+            }
+            this.refreshConfigurations();
+            files.forEach(file => this.markerService.refreshOpenEditors(file));
+            await this.saveModel();
+            rhamtChannel.print(`\nRe-analysis of ${files.length} file(s) completed successfully`);
+        }
+        catch (e) {
+            console.log(e);
+            rhamtChannel.print('\nRe-analysis failed');
+            if (e instanceof AnalysisFailedError) {
+                this.showAnalysisFailure(e);
+            }
+            else {
+                vscode.window.showErrorMessage(`Error re-analyzing files - ${e}`);
+            }
+        }
+    }
+
+    /**
+     * Shows why the analyzer failed with the last lines it printed, which usually hold the cause.
+     */
+    private async showAnalysisFailure(e: AnalysisFailedError): Promise<void> {
+        const lines = e.lastLines.slice(-5);
+        const choice = await vscode.window.showErrorMessage(lines.length > 0 ? `${e.message}:\n${lines.join('\n')}` : e.message, 'Open log');
+        if (choice !== 'Open log') {
+            return;
+        }
+        if (e.logLocation && await fs.pathExists(e.logLocation)) {
+            vscode.window.showTextDocument(vscode.Uri.file(e.logLocation), { preview: true });
+        }
+        else {
+            rhamtChannel.show();
+        }
+    }
+
     private async saveModel(): Promise<void> {
         try {
             // save analysis results, quickfix info, active analysis, etc.
@@ -219,7 +353,7 @@ export class RhamtExplorer {
 
     private createViewer(): vscode.TreeView<any> {
         const treeDataProvider = this.dataProvider;
-        const viewer = vscode.window.createTreeView('rhamtExplorerView', { treeDataProvider });
+        const viewer = vscode.window.createTreeView('rhamtExplorerView', { treeDataProvider, canSelectMany: true });
         // viewer.onDidExpandElement(e => {
         //     console.log(e.element);
         //     if (e.element instanceof FolderNode) {
@@ -9,7 +9,14 @@ import { RhamtView } from './explorer/rhamtView';
 import { ModelService } from './model/modelService';
 import { RhamtModel, IssueContainer } from './server/analyzerModel';
 import { IssueDetailsView } from './issueDetails/issueDetailsView';
+import { AnalysisSummaryView } from './summary/analysisSummaryView';
 import { KaiFixDetails } from './kaiFix/kaiFix';
+import { KaiFixHistory } from './kaiFix/kaiHistory';
+import { KaiFixHistoryView } from './kaiFix/kaiHistoryView';
+import { KaiReviewQueueView } from './kaiFix/kaiReviewQueueView';
+import { KaiFixDetailsView } from './kaiFix/kaiFixDetailsView';
+import { KaiHealthMonitor } from './kaiFix/kaiHealth';
+import { KaiFeedback } from './kaiFix/kaiFeedback';
 import { ReportView } from './report/reportView';
 import { ConfigurationEditorService } from './editor/configurationEditorService';
 import { HintItem } from './tree/hintItem';
@@ -58,7 +65,14 @@ export async function activate(context: vscode.ExtensionContext) {
     const markerService = new MarkerService(context, modelService);
     new RhamtView(context, modelService, configEditorService, markerService);
     new ReportView(context);
-    new KaiFixDetails(context, modelService);
+    const workspaceFolder = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : '';
+    const kaiFixHistory = KaiFixHistory.forWorkspace(modelService, workspaceFolder);
+    const kaiFixDetails = new KaiFixDetails(context, modelService, kaiFixHistory, new KaiFeedback(context, modelService));
+    new KaiReviewQueueView(context, kaiFixDetails);
+    new KaiFixDetailsView(context, kaiFixDetails);
+    new KaiFixHistoryView(context, kaiFixHistory);
+    new KaiHealthMonitor(context, modelService);
+    new AnalysisSummaryView(context);
     detailsView = new IssueDetailsView(context, locations, modelService);
     
     context.subscriptions.push(vscode.commands.registerCommand('rhamt.openDoc', async (data) => {
@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import { IHint } from '../server/analyzerModel';
+
+const EXCLUDED_INCIDENTS_KEY = 'kai.excludedIncidents';
+
+interface IncidentPickItem extends vscode.QuickPickItem {
+    hint: IHint;
+}
+
+/**
+ * Remembers per file which incidents were left out of the last Kai request, by their ids, which
+ * stay the same across analysis runs and when lines are added above an incident. Exclusions are
+ * stored rather than selections so that incidents found by a later analysis are sent by default.
+ */
+export class IncidentSelection {
+
+    constructor(private context: vscode.ExtensionContext) {
+    }
+
+    /**
+     * Lets the user choose the incidents of a file to send to Kai. Returns undefined when cancelled.
+     */
+    async pick(filePath: string, hints: IHint[]): Promise<IHint[] | undefined> {
+        if (hints.length < 2) {
+            return hints;
+        }
+        const excluded = this.getExcluded(filePath);
+        const items: IncidentPickItem[] = hints.map(hint => ({
+            label: `Line ${hint.lineNumber}: ${hint.title || hint.ruleId}`,
+            description: hint.ruleId,
+            detail: hint.hint,
+            picked: !excluded.includes(hint.id),
+            hint
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            matchOnDescription: true,
+            placeHolder: `Select the incidents of ${filePath.split('/').pop()} to send to Kai`
+        });
+        if (!picked) {
+            return undefined;
+        }
+        if (picked.length === 0) {
+            vscode.window.showInformationMessage('No incidents selected.');
+            return undefined;
+        }
+        const selected = picked.map(item => item.hint);
+        await this.remember(filePath, hints, selected);
+        return selected;
+    }
+
+    /**
+     * Returns the incidents of a file that were not excluded the last time they were picked.
+     */
+    getRemembered(filePath: string, hints: IHint[]): IHint[] {
+        const excluded = this.getExcluded(filePath);
+        return hints.filter(hint => !excluded.includes(hint.id));
+    }
+
+    async remember(filePath: string, hints: IHint[], selected: IHint[]): Promise<void> {
+        const all = this.context.workspaceState.get<{ [file: string]: string[] }>(EXCLUDED_INCIDENTS_KEY) || {};
+        const excluded = hints.filter(hint => !selected.includes(hint)).map(hint => hint.id);
+        if (excluded.length > 0) {
+            all[filePath] = excluded;
+        }
+        else {
+            delete all[filePath];
+        }
+        await this.context.workspaceState.update(EXCLUDED_INCIDENTS_KEY, all);
+    }
+
+    private getExcluded(filePath: string): string[] {
+        const all = this.context.workspaceState.get<{ [file: string]: string[] }>(EXCLUDED_INCIDENTS_KEY) || {};
+        return all[filePath] || [];
+    }
+}
@@ -0,0 +1,471 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import fetch from 'node-fetch';
+import { IHint, RhamtConfiguration } from '../server/analyzerModel';
+import { getKaiRequestUrl, KaiEndpoint, resolveKaiEndpoint } from './kaiEndpoint';
+import { KaiFixtureStore } from './kaiReplay';
+import { KaiFixOutcomeReport } from './kaiFeedback';
+import { getStreamFormat, readStream } from './kaiStream';
+import { AbortController, AbortSignal } from 'abort-controller';
+
+export const INCIDENT_SOLUTION_ROUTE = 'get_incident_solution';
+export const FILE_SOLUTION_ROUTE = 'get_incident_solutions_for_file';
+
+const STREAM_ACCEPT = 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8';
+
+export interface IncidentVariables {
+    file: string;
+    kind: string;
+    name: string;
+    package: string;
+}
+
+export interface Incident {
+    violation_name: string;
+    ruleset_name: string;
+    incident_variables: IncidentVariables;
+    line_number: number;
+    analysis_message: string;
+}
+
+export interface RelatedFile {
+    file_name: string;
+    file_contents: string;
+}
+
+export interface IncidentSolutionRequest extends Incident {
+    application_name: string;
+    incident_snip: string;
+    file_name: string;
+    file_contents: string;
+    /**
+     * Other files of the application Kai may need to read or change to fix the incident.
+     */
+    related_files?: RelatedFile[];
+}
+
+export interface UpdatedRelatedFile {
+    file_name: string;
+    updated_file: string;
+}
+
+export interface IncidentSolutionResponse {
+    llm_output: string;
+    /**
+     * Changes Kai proposes to related files sent with the request.
+     */
+    updated_related_files?: UpdatedRelatedFile[];
+}
+
+export interface FileSolutionRequest {
+    file_name: string;
+    file_contents: string;
+    application_name: string;
+    incidents: Incident[];
+    include_llm_results: string;
+}
+
+/**
+ * Text fields of the file solution response are sent by Kai either as a single
+ * string or as a list of strings, one per incident batch.
+ */
+export type KaiText = string | string[];
+
+export interface FileSolutionResponse {
+    updated_file: string;
+    total_reasoning: KaiText;
+    used_prompts: KaiText;
+    model_id: string;
+    additional_information: KaiText;
+    llm_results?: KaiText | null;
+}
+
+export type KaiHealthState = 'connected' | 'degraded' | 'unreachable';
+
+export interface KaiHealth {
+    state: KaiHealthState;
+    detail?: string;
+}
+
+const HEALTHY_STATUSES = ['ok', 'up', 'healthy', 'pass'];
+
+export class KaiRequestError extends Error {
+    constructor(public readonly status: number, public readonly body: string) {
+        super(`Kai request failed with HTTP status ${status}${body ? `: ${body}` : ''}`);
+        this.name = 'KaiRequestError';
+    }
+}
+
+export class KaiResponseError extends Error {
+    constructor(public readonly violations: string[]) {
+        super(`Invalid Kai response:\n${violations.map(violation => `- ${violation}`).join('\n')}`);
+        this.name = 'KaiResponseError';
+    }
+}
+
+export class KaiCancelledError extends Error {
+    constructor() {
+        super('Kai request was cancelled');
+        this.name = 'KaiCancelledError';
+    }
+}
+
+export class KaiTimeoutError extends Error {
+    constructor(public readonly timeout: number) {
+        super(`Kai request timed out after ${timeout}ms`);
+        this.name = 'KaiTimeoutError';
+    }
+}
+
+export class KaiClient {
+
+    private fixtures: KaiFixtureStore | undefined;
+
+    constructor(public readonly endpoint: KaiEndpoint) {
+        this.fixtures = endpoint.replay ? new KaiFixtureStore(endpoint.replay.directory) : undefined;
+    }
+
+    static forConfiguration(config: RhamtConfiguration): KaiClient {
+        return new KaiClient(resolveKaiEndpoint(config));
+    }
+
+    async getIncidentSolution(request: IncidentSolutionRequest, signal?: AbortSignal): Promise<IncidentSolutionResponse> {
+        const data = await this.send(INCIDENT_SOLUTION_ROUTE, request, signal);
+        const violations = validateIncidentSolutionResponse(data);
+        if (violations.length > 0) {
+            throw new KaiResponseError(violations);
+        }
+        await this.record(INCIDENT_SOLUTION_ROUTE, request, data);
+        return data as IncidentSolutionResponse;
+    }
+
+    /**
+     * Requests an incident solution and hands each piece of LLM output to onOutput as it is
+     * streamed. Servers that answer with a regular JSON body are handled as in getIncidentSolution,
+     * without calling onOutput.
+     */
+    async streamIncidentSolution(request: IncidentSolutionRequest, onOutput: (text: string) => void, signal?: AbortSignal): Promise<IncidentSolutionResponse> {
+        let output = '';
+        let final: any;
+        const data = await this.send(INCIDENT_SOLUTION_ROUTE, request, signal, event => {
+            if (event['error']) {
+                throw new KaiResponseError([`server reported an error: ${event['error']}`]);
+            }
+            if (typeof event['delta'] === 'string') {
+                output += event['delta'];
+                onOutput(event['delta']);
+            }
+            if ('llm_output' in event) {
+                final = event;
+            }
+        });
+        const result = data !== undefined ? data : (final || { llm_output: output });
+        const violations = validateIncidentSolutionResponse(result);
+        if (violations.length > 0) {
+            throw new KaiResponseError(violations);
+        }
+        await this.record(INCIDENT_SOLUTION_ROUTE, request, result);
+        return result as IncidentSolutionResponse;
+    }
+
+    async getIncidentSolutionsForFile(request: FileSolutionRequest, signal?: AbortSignal): Promise<FileSolutionResponse> {
+        const data = await this.send(FILE_SOLUTION_ROUTE, request, signal);
+        const violations = validateFileSolutionResponse(data);
+        if (violations.length > 0) {
+            throw new KaiResponseError(violations);
+        }
+        await this.record(FILE_SOLUTION_ROUTE, request, data);
+        return data as FileSolutionResponse;
+    }
+
+    /**
+     * Pings the health route of the backend. An answer with an error status, or a JSON body whose
+     * status is not healthy, means the server is degraded. No answer within the timeout means it is unreachable.
+     */
+    async checkHealth(route: string, timeout: number): Promise<KaiHealth> {
+        if (this.endpoint.replay && this.endpoint.replay.mode === 'replay') {
+            return { state: 'connected', detail: `replaying recorded responses from ${this.endpoint.replay.directory}` };
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeout);
+        try {
+            const response = await fetch(getKaiRequestUrl(this.endpoint, route), {
+                method: 'GET',
+                headers: { ...this.endpoint.headers, 'Accept': 'application/json' },
+                signal: controller.signal,
+            });
+            const text = await response.text();
+            if (!response.ok) {
+                return { state: 'degraded', detail: `HTTP ${response.status}${text ? `: ${text.substring(0, 200)}` : ''}` };
+            }
+            let status: any;
+            try {
+                status = JSON.parse(text)['status'];
+            }
+            catch (e) {
+                // plain text health routes only signal their state through the http status
+            }
+            if (typeof status === 'string' && !HEALTHY_STATUSES.includes(status.toLowerCase())) {
+                return { state: 'degraded', detail: `server reports status "${status}"` };
+            }
+            return { state: 'connected' };
+        }
+        catch (e) {
+            const detail = e && e.name === 'AbortError' ? `no answer within ${timeout}ms` : String(e && e.message || e);
+            return { state: 'unreachable', detail };
+        }
+        finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Posts the outcome of a fix to the feedback route. Nothing is sent while replaying recorded responses.
+     */
+    async reportFixOutcome(route: string, report: KaiFixOutcomeReport, signal?: AbortSignal): Promise<void> {
+        if (this.endpoint.replay && this.endpoint.replay.mode === 'replay') {
+            return;
+        }
+        await this.post(route, report, signal);
+    }
+
+    /**
+     * Posts the request, or in replay mode answers it from the recorded responses, which
+     * are returned like a buffered response.
+     */
+    private async send(route: string, body: any, signal?: AbortSignal, onEvent?: (event: any) => void): Promise<any> {
+        if (this.endpoint.replay && this.endpoint.replay.mode === 'replay') {
+            if (signal && signal.aborted) {
+                throw new KaiCancelledError();
+            }
+            return this.fixtures.read(route, body);
+        }
+        return this.post(route, body, signal, onEvent);
+    }
+
+    /**
+     * Saves a validated response in record mode. A failure to save is logged, the fix is still used.
+     */
+    private async record(route: string, body: any, response: any): Promise<void> {
+        if (this.endpoint.replay && this.endpoint.replay.mode === 'record') {
+            try {
+                await this.fixtures.write(route, body, response);
+            }
+            catch (e) {
+                console.error('Error recording Kai response:', e);
+            }
+        }
+    }
+
+    /**
+     * Posts a request to Kai. The request is aborted when the given signal fires, or when
+     * the endpoint timeout elapses before the response body has been read. When an event
+     * handler is given and the server answers with a stream, each event is passed to the
+     * handler and undefined is returned.
+     */
+    private async post(route: string, body: any, signal?: AbortSignal, onEvent?: (event: any) => void): Promise<any> {
+        if (signal && signal.aborted) {
+            throw new KaiCancelledError();
+        }
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, this.endpoint.timeout);
+        const onAbort = () => controller.abort();
+        if (signal) {
+            signal.addEventListener('abort', onAbort);
+        }
+        let text: string;
+        try {
+            const response = await fetch(getKaiRequestUrl(this.endpoint, route), {
+                method: 'POST',
+                headers: {
+                    ...this.endpoint.headers,
+                    'Content-Type': 'application/json',
+                    'Accept': onEvent ? STREAM_ACCEPT : 'application/json',
+                },
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+            if (!response.ok) {
+                throw new KaiRequestError(response.status, await response.text());
+            }
+            const format = onEvent ? getStreamFormat(response.headers.get('content-type')) : undefined;
+            if (format) {
+                await readStream(response.body, format, payload => onEvent(parseJson(payload)));
+                return undefined;
+            }
+            text = await response.text();
+        }
+        catch (e) {
+            // stops reading whatever the server still sends
+            controller.abort();
+            if (e && e.name === 'AbortError') {
+                throw timedOut ? new KaiTimeoutError(this.endpoint.timeout) : new KaiCancelledError();
+            }
+            throw e;
+        }
+        finally {
+            clearTimeout(timer);
+            if (signal) {
+                signal.removeEventListener('abort', onAbort);
+            }
+        }
+        // routes such as the feedback one may answer without a body
+        return text ? parseJson(text) : undefined;
+    }
+}
+
+export function formatHintsToIncidents(hints: IHint[]): Incident[] {
+    return hints.map(hint => formatHintToIncident(hint));
+}
+
+export function formatHintToIncident(hint: IHint): Incident {
+    const variables: any = hint.variables || {};
+    return {
+        violation_name: hint.ruleId,
+        ruleset_name: hint.rulesetName,
+        incident_variables: {
+            file: variables['file'] || '',
+            kind: variables['kind'] || '',
+            name: variables['name'] || '',
+            package: variables['package'] || '',
+        },
+        line_number: hint.lineNumber,
+        analysis_message: hint.hint,
+    };
+}
+
+export function createIncidentSolutionRequest(hint: IHint, applicationName: string, fileName: string, fileContents: string, relatedFiles?: RelatedFile[]): IncidentSolutionRequest {
+    const request: IncidentSolutionRequest = {
+        application_name: applicationName,
+        ...formatHintToIncident(hint),
+        incident_snip: hint.sourceSnippet,
+        file_name: fileName,
+        file_contents: fileContents,
+    };
+    if (relatedFiles && relatedFiles.length > 0) {
+        request.related_files = relatedFiles;
+    }
+    return request;
+}
+
+export function createFileSolutionRequest(hints: IHint[], applicationName: string, fileName: string, fileContents: string): FileSolutionRequest {
+    return {
+        file_name: fileName,
+        file_contents: fileContents,
+        application_name: applicationName,
+        incidents: formatHintsToIncidents(hints || []),
+        include_llm_results: 'True',
+    };
+}
+
+/**
+ * Returns every schema violation found in a get_incident_solution response, or an empty list.
+ */
+export function validateIncidentSolutionResponse(data: any): string[] {
+    if (!isObject(data)) {
+        return ['response is not a JSON object'];
+    }
+    const violations = [];
+    checkString(data, 'llm_output', violations);
+    const related = data['updated_related_files'];
+    if (related !== undefined && related !== null) {
+        if (!Array.isArray(related)) {
+            violations.push(`property "updated_related_files" must be a list but was ${describe(related)}`);
+        }
+        else {
+            related.forEach((entry, index) => {
+                if (!isObject(entry) || typeof entry['file_name'] !== 'string' || typeof entry['updated_file'] !== 'string') {
+                    violations.push(`entry ${index} of "updated_related_files" must have string properties "file_name" and "updated_file"`);
+                }
+            });
+        }
+    }
+    return violations;
+}
+
+/**
+ * Returns every schema violation found in a get_incident_solutions_for_file response, or an empty list.
+ */
+export function validateFileSolutionResponse(data: any): string[] {
+    if (!isObject(data)) {
+        return ['response is not a JSON object'];
+    }
+    const violations = [];
+    checkString(data, 'updated_file', violations);
+    if (typeof data['updated_file'] === 'string' && !data['updated_file'].trim()) {
+        violations.push('"updated_file" is empty');
+    }
+    checkString(data, 'model_id', violations);
+    checkText(data, 'total_reasoning', violations);
+    checkText(data, 'used_prompts', violations);
+    checkText(data, 'additional_information', violations);
+    if (data['llm_results'] !== undefined && data['llm_results'] !== null) {
+        checkText(data, 'llm_results', violations);
+    }
+    return violations;
+}
+
+/**
+ * Joins a Kai text field into a single displayable string.
+ */
+export function joinKaiText(text: KaiText | null | undefined, separator: string = '\n'): string {
+    if (text === undefined || text === null) {
+        return '';
+    }
+    return Array.isArray(text) ? text.join(separator) : text;
+}
+
+function parseJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    }
+    catch (e) {
+        throw new KaiResponseError([`response body is not valid JSON (${e.message})`]);
+    }
+}
+
+function isObject(data: any): boolean {
+    return data !== null && typeof data === 'object' && !Array.isArray(data);
+}
+
+function checkString(data: any, key: string, violations: string[]): void {
+    if (!(key in data)) {
+        violations.push(`missing property "${key}"`);
+    }
+    else if (typeof data[key] !== 'string') {
+        violations.push(`property "${key}" must be a string but was ${describe(data[key])}`);
+    }
+}
+
+function checkText(data: any, key: string, violations: string[]): void {
+    if (!(key in data)) {
+        violations.push(`missing property "${key}"`);
+        return;
+    }
+    const value = data[key];
+    if (typeof value === 'string') {
+        return;
+    }
+    if (!Array.isArray(value)) {
+        violations.push(`property "${key}" must be a string or a list of strings but was ${describe(value)}`);
+        return;
+    }
+    value.forEach((entry, index) => {
+        if (typeof entry !== 'string') {
+            violations.push(`property "${key}[${index}]" must be a string but was ${describe(entry)}`);
+        }
+    });
+}
+
+function describe(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'an array' : typeof value;
+}
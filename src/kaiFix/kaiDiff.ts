@@ -0,0 +1,295 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * A contiguous block of changed lines. Lines keep their line terminators so that
+ * hunks can be mapped back to character offsets in the original text.
+ */
+export interface DiffHunk {
+    originalStart: number;
+    originalLines: string[];
+    proposedStart: number;
+    proposedLines: string[];
+}
+
+export interface TextRange {
+    start: number;
+    end: number;
+}
+
+type DiffOp = 'equal' | 'delete' | 'insert';
+
+/**
+ * Splits text into lines, each including its terminator. A final line without a
+ * terminator is kept, an empty trailing line is not.
+ */
+export function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * Computes the hunks that turn the original text into the proposed one. Lines are
+ * compared without their terminators, so a CRLF file and an LF proposal only differ
+ * where their content does.
+ */
+export function computeHunks(original: string, proposed: string): DiffHunk[] {
+    const a = splitLines(original);
+    const b = splitLines(proposed);
+    const ops = diff(a.map(compareKey), b.map(compareKey));
+    const hunks: DiffHunk[] = [];
+    let x = 0;
+    let y = 0;
+    let current: DiffHunk | undefined;
+    ops.forEach(op => {
+        if (op === 'equal') {
+            current = undefined;
+            x++;
+            y++;
+            return;
+        }
+        if (!current) {
+            current = { originalStart: x, originalLines: [], proposedStart: y, proposedLines: [] };
+            hunks.push(current);
+        }
+        if (op === 'delete') {
+            current.originalLines.push(a[x++]);
+        }
+        else {
+            current.proposedLines.push(b[y++]);
+        }
+    });
+    return hunks;
+}
+
+/**
+ * Returns the character range of the original text replaced by the given hunk.
+ */
+export function getHunkRange(original: string, hunk: DiffHunk): TextRange {
+    const lines = splitLines(original);
+    const start = lines.slice(0, hunk.originalStart).reduce((length, line) => length + line.length, 0);
+    const end = start + hunk.originalLines.reduce((length, line) => length + line.length, 0);
+    return { start, end };
+}
+
+/**
+ * Returns the text a hunk inserts, with line terminators converted to the given line ending.
+ */
+export function getHunkText(hunk: DiffHunk, lineEnding: string = '\n'): string {
+    return hunk.proposedLines.map(line => line.replace(/\r?\n$/, lineEnding)).join('');
+}
+
+/**
+ * Applies the given hunks of computeHunks(original, ...) to the original text.
+ */
+export function applyHunks(original: string, hunks: DiffHunk[], lineEnding: string = '\n'): string {
+    let result = original;
+    hunks.slice().sort((h1, h2) => h2.originalStart - h1.originalStart).forEach(hunk => {
+        const range = getHunkRange(original, hunk);
+        result = result.substring(0, range.start) + getHunkText(hunk, lineEnding) + result.substring(range.end);
+    });
+    return result;
+}
+
+export interface MergeResult {
+    text: string;
+    conflicts: number;
+}
+
+const CONFLICT_START = '<<<<<<< Current';
+const CONFLICT_END = '>>>>>>> Kai';
+
+/**
+ * Three-way merges the changes that turned base into ours with the given hunks of
+ * computeHunks(base, ...). Changes touching the same lines are written as a conflict
+ * between merge markers unless both sides made the same change.
+ */
+export function mergeHunks(base: string, ours: string, theirs: DiffHunk[], lineEnding: string = '\n'): MergeResult {
+    const baseLines = splitLines(base);
+    const changes = computeHunks(base, ours).map(hunk => ({ hunk, ours: true }))
+        .concat(theirs.map(hunk => ({ hunk, ours: false })))
+        .sort((c1, c2) => c1.hunk.originalStart - c2.hunk.originalStart);
+    const end = (hunk: DiffHunk) => hunk.originalStart + hunk.originalLines.length;
+
+    let text = '';
+    let conflicts = 0;
+    let position = 0;
+    let i = 0;
+    while (i < changes.length) {
+        // group every change that overlaps the lines of the group so far, or starts where its last change starts
+        const group = [changes[i++]];
+        let groupEnd = end(group[0].hunk);
+        while (i < changes.length && (changes[i].hunk.originalStart < groupEnd
+            || changes[i].hunk.originalStart === group[group.length - 1].hunk.originalStart)) {
+            groupEnd = Math.max(groupEnd, end(changes[i].hunk));
+            group.push(changes[i++]);
+        }
+        const groupStart = group[0].hunk.originalStart;
+        text += baseLines.slice(position, groupStart).join('');
+        const ourHunks = group.filter(change => change.ours).map(change => change.hunk);
+        const theirHunks = group.filter(change => !change.ours).map(change => change.hunk);
+        const ourText = replaceLines(baseLines, groupStart, groupEnd, ourHunks, lineEnding);
+        const theirText = replaceLines(baseLines, groupStart, groupEnd, theirHunks, lineEnding);
+        if (theirHunks.length === 0 || ourText === theirText) {
+            text += ourText;
+        }
+        else if (ourHunks.length === 0) {
+            text += theirText;
+        }
+        else {
+            conflicts++;
+            text += `${CONFLICT_START}${lineEnding}${terminate(ourText, lineEnding)}=======${lineEnding}${terminate(theirText, lineEnding)}${CONFLICT_END}${lineEnding}`;
+        }
+        position = groupEnd;
+    }
+    text += baseLines.slice(position).join('');
+    return { text, conflicts };
+}
+
+/**
+ * Whether the text still holds a conflict written by mergeHunks.
+ */
+export function hasMergeMarkers(text: string): boolean {
+    return splitLines(text).some(line => line.startsWith(CONFLICT_START) || line.startsWith(CONFLICT_END));
+}
+
+function replaceLines(baseLines: string[], start: number, end: number, hunks: DiffHunk[], lineEnding: string): string {
+    let text = '';
+    let position = start;
+    hunks.forEach(hunk => {
+        text += baseLines.slice(position, hunk.originalStart).join('');
+        text += getHunkText(hunk, lineEnding);
+        position = hunk.originalStart + hunk.originalLines.length;
+    });
+    return text + baseLines.slice(position, end).join('');
+}
+
+function terminate(text: string, lineEnding: string): string {
+    return text === '' || text.endsWith('\n') ? text : text + lineEnding;
+}
+
+/**
+ * Returns the hunks moved to where their original lines are found in the given text,
+ * searching outwards from the recorded position, or undefined when a hunk no longer
+ * matches anywhere. Insertions move along with the hunks before them.
+ */
+export function relocateHunks(text: string, hunks: DiffHunk[]): DiffHunk[] | undefined {
+    const lines = splitLines(text).map(compareKey);
+    const relocated: DiffHunk[] = [];
+    let shift = 0;
+    let minStart = 0;
+    for (const hunk of hunks.slice().sort((h1, h2) => h1.originalStart - h2.originalStart)) {
+        const wanted = hunk.originalLines.map(compareKey);
+        const expected = hunk.originalStart + shift;
+        const matchesAt = (candidate: number) => candidate >= minStart
+            && candidate + wanted.length <= lines.length
+            && wanted.every((line, index) => lines[candidate + index] === line);
+        let start = -1;
+        if (wanted.length === 0) {
+            start = Math.min(Math.max(expected, minStart), lines.length);
+        }
+        for (let distance = 0; start < 0 && distance <= lines.length; distance++) {
+            if (matchesAt(expected - distance)) {
+                start = expected - distance;
+            }
+            else if (matchesAt(expected + distance)) {
+                start = expected + distance;
+            }
+        }
+        if (start < 0) {
+            return undefined;
+        }
+        shift = start - hunk.originalStart;
+        minStart = start + wanted.length;
+        relocated.push({ ...hunk, originalStart: start });
+    }
+    return relocated;
+}
+
+/**
+ * Formats hunks as a unified diff without context lines.
+ */
+export function formatPatch(hunks: DiffHunk[], originalLabel: string, proposedLabel: string): string {
+    const strip = (line: string) => line.replace(/\r?\n$/, '');
+    const header = `--- ${originalLabel}\n+++ ${proposedLabel}\n`;
+    return header + hunks.map(hunk => {
+        const range = (start: number, length: number) => `${length === 0 ? start : start + 1},${length}`;
+        return `@@ -${range(hunk.originalStart, hunk.originalLines.length)} +${range(hunk.proposedStart, hunk.proposedLines.length)} @@\n`
+            + hunk.originalLines.map(line => `-${strip(line)}\n`).join('')
+            + hunk.proposedLines.map(line => `+${strip(line)}\n`).join('');
+    }).join('');
+}
+
+/**
+ * Returns a stable identity for a hunk, used to keep review decisions while the proposal is being edited.
+ */
+export function getHunkKey(hunk: DiffHunk): string {
+    return `${hunk.originalStart}\u0000${hunk.originalLines.join('')}\u0000${hunk.proposedLines.join('')}`;
+}
+
+/**
+ * A last line without terminator never equals a terminated one, otherwise lines
+ * appended after it would be glued onto it.
+ */
+function compareKey(line: string): string {
+    return line.endsWith('\n') ? line.replace(/\r?\n$/, '') : `${line}\u0000`;
+}
+
+/**
+ * Myers' O(ND) difference algorithm, returning the edit script from a to b.
+ */
+function diff(a: string[], b: string[]): DiffOp[] {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                return backtrack(trace, n, m);
+            }
+        }
+    }
+    return [];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+    const ops: DiffOp[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const v = trace[d];
+        const at = (k: number) => v[k + d];
+        const k = x - y;
+        const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = d === 0 ? 0 : prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push('equal');
+            x--;
+            y--;
+        }
+        if (d > 0) {
+            if (x === prevX) {
+                ops.push('insert');
+                y--;
+            }
+            else {
+                ops.push('delete');
+                x--;
+            }
+        }
+    }
+    return ops.reverse();
+}
@@ -0,0 +1,126 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RhamtConfiguration } from '../server/analyzerModel';
+import { KaiReplayMode } from './kaiReplay';
+
+export const DEFAULT_KAI_URL = 'http://0.0.0.0:8080';
+export const DEFAULT_KAI_TIMEOUT = 300000;
+export const DEFAULT_FIXTURES_DIRECTORY = '.kai-fixtures';
+
+export interface KaiEndpoint {
+    url: string;
+    headers: { [name: string]: string };
+    timeout: number;
+    /**
+     * The configuration the endpoint was resolved for, if any.
+     */
+    configurationId?: string;
+    /**
+     * Set when responses are recorded to or replayed from the fixtures directory.
+     */
+    replay?: { mode: 'record' | 'replay', directory: string };
+}
+
+/**
+ * Resolves the Kai backend used for requests made on behalf of the given configuration.
+ * Values from the configuration options (kai-url, kai-headers, kai-timeout) take
+ * precedence over the kai.backend.* settings.
+ */
+export function resolveKaiEndpoint(config?: RhamtConfiguration): KaiEndpoint {
+    const settings = vscode.workspace.getConfiguration('kai.backend');
+    const options = config ? config.options : {};
+
+    const rawUrl = (options['kai-url'] as string || settings.get<string>('url') || DEFAULT_KAI_URL).trim();
+    const url = validateKaiUrl(rawUrl);
+
+    const headers: { [name: string]: string } = {};
+    const defaultHeaders = settings.get<{ [name: string]: string }>('headers') || {};
+    Object.keys(defaultHeaders).forEach(name => headers[name] = String(defaultHeaders[name]));
+    const configHeaders = options['kai-headers'] as string[];
+    if (configHeaders) {
+        configHeaders.forEach(entry => {
+            const [name, value] = parseHeader(entry);
+            headers[name] = value;
+        });
+    }
+
+    const rawTimeout = options['kai-timeout'] || settings.get<number>('timeout');
+    let timeout = DEFAULT_KAI_TIMEOUT;
+    if (rawTimeout !== undefined && rawTimeout !== '') {
+        timeout = Number(rawTimeout);
+        if (!Number.isInteger(timeout) || timeout <= 0) {
+            throw new Error(`Invalid Kai request timeout '${rawTimeout}'. Expected a positive number of milliseconds.`);
+        }
+    }
+
+    const endpoint: KaiEndpoint = { url, headers, timeout };
+    if (config) {
+        endpoint.configurationId = config.id;
+    }
+    const replay = resolveReplay();
+    if (replay) {
+        endpoint.replay = replay;
+    }
+    return endpoint;
+}
+
+/**
+ * Resolves the kai.replay.* settings. A relative fixtures directory is resolved against the first workspace folder.
+ */
+function resolveReplay(): KaiEndpoint['replay'] {
+    const settings = vscode.workspace.getConfiguration('kai.replay');
+    const mode = settings.get<KaiReplayMode>('mode') || 'off';
+    if (mode === 'off') {
+        return undefined;
+    }
+    if (mode !== 'record' && mode !== 'replay') {
+        throw new Error(`Invalid Kai replay mode '${mode}'. Expected off, record or replay.`);
+    }
+    let directory = (settings.get<string>('directory') || DEFAULT_FIXTURES_DIRECTORY).trim();
+    if (!path.isAbsolute(directory)) {
+        const folders = vscode.workspace.workspaceFolders;
+        if (!folders || folders.length === 0) {
+            throw new Error(`Kai fixtures directory '${directory}' is relative but no workspace folder is open.`);
+        }
+        directory = path.join(folders[0].uri.fsPath, directory);
+    }
+    return { mode, directory };
+}
+
+/**
+ * Returns the absolute URL of a Kai route, preserving any path prefix of the backend URL.
+ */
+export function getKaiRequestUrl(endpoint: KaiEndpoint, route: string): string {
+    const base = endpoint.url.endsWith('/') ? endpoint.url : `${endpoint.url}/`;
+    return new URL(route.replace(/^\/+/, ''), base).toString();
+}
+
+function validateKaiUrl(rawUrl: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(rawUrl);
+    }
+    catch (e) {
+        throw new Error(`Invalid Kai backend URL '${rawUrl}'. Expected an absolute URL such as ${DEFAULT_KAI_URL}.`);
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error(`Invalid Kai backend URL '${rawUrl}'. Only http and https are supported.`);
+    }
+    if (parsed.search || parsed.hash) {
+        throw new Error(`Invalid Kai backend URL '${rawUrl}'. Query strings and fragments are not supported.`);
+    }
+    return parsed.toString();
+}
+
+function parseHeader(entry: string): [string, string] {
+    const index = entry.indexOf(':');
+    const name = index > 0 ? entry.substring(0, index).trim() : '';
+    if (!name || /\s/.test(name)) {
+        throw new Error(`Invalid Kai request header '${entry}'. Expected 'Name: value'.`);
+    }
+    return [name, entry.substring(index + 1).trim()];
+}
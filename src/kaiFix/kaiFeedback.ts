@@ -0,0 +1,211 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import { ModelService } from '../model/modelService';
+import { KaiClient, KaiRequestError } from './kaiClient';
+import { getKaiRequestUrl, KaiEndpoint, resolveKaiEndpoint } from './kaiEndpoint';
+
+export const DEFAULT_FEEDBACK_ROUTE = 'report_fix_outcome';
+
+const FEEDBACK_QUEUE_KEY = 'kai.feedbackQueue';
+const FIRST_RETRY_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+const MAX_QUEUED_REPORTS = 200;
+
+/**
+ * accepted: the proposal was applied as is. edited: it was changed or only partly applied.
+ */
+export type KaiFixOutcome = 'accepted' | 'edited' | 'rejected';
+
+export interface KaiFixOutcomeReport {
+    outcome: KaiFixOutcome;
+    application_name: string;
+    file_name: string;
+    incident_ids: string[];
+    rule_ids: string[];
+    model_id?: string;
+    /**
+     * Unified diff of the change applied to the file, or of the change Kai proposed when rejected.
+     */
+    diff: string;
+    comment?: string;
+    timestamp: string;
+}
+
+/**
+ * A report waiting to be sent, with the URL of the backend that proposed the fix and the configuration
+ * it was proposed for. Its headers are resolved again when it is sent, so no credentials are stored.
+ */
+interface QueuedReport {
+    url: string;
+    configurationId?: string;
+    report: KaiFixOutcomeReport;
+}
+
+/**
+ * Reports the outcome of Kai fixes to the feedback route of the backend that proposed them, when
+ * enabled with kai.feedback.enabled. Reports are queued in the workspace state first and removed
+ * once delivered, so those made while the server is unreachable are sent on a later attempt,
+ * including after a restart.
+ */
+export class KaiFeedback implements vscode.Disposable {
+
+    private retryTimer: NodeJS.Timer | undefined;
+    private retryDelay = FIRST_RETRY_DELAY;
+    private flushing: Promise<void> | undefined;
+
+    constructor(private context: vscode.ExtensionContext, private modelService: ModelService) {
+        context.subscriptions.push(this);
+        if (!modelService.loaded) {
+            modelService.onModelChanged.once(() => this.flush());
+        }
+        this.flush();
+    }
+
+    /**
+     * Whether outcomes are reported, i.e. kai.feedback.enabled is set and the kai.feedback.route setting is not empty.
+     */
+    public isEnabled(): boolean {
+        return !!vscode.workspace.getConfiguration('kai.feedback').get<boolean>('enabled') && !!this.getRoute();
+    }
+
+    /**
+     * Queues the report for the given backend, or for the one of the kai.backend.* settings.
+     */
+    public async report(report: KaiFixOutcomeReport, endpoint?: KaiEndpoint): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+        const queue = this.getQueue();
+        const proposer = endpoint || resolveKaiEndpoint();
+        queue.push({ url: proposer.url, configurationId: proposer.configurationId, report });
+        // keep the newest reports when the server has been away for a long time
+        await this.context.workspaceState.update(FEEDBACK_QUEUE_KEY, queue.slice(-MAX_QUEUED_REPORTS));
+        await this.flush();
+    }
+
+    /**
+     * Sends the queued reports oldest first, or waits for the attempt in progress.
+     */
+    public flush(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.doFlush()
+                .catch(e => console.log(`Error sending the Kai feedback: ${e}`))
+                .then(() => this.flushing = undefined);
+        }
+        return this.flushing;
+    }
+
+    private async doFlush(): Promise<void> {
+        const route = this.getRoute();
+        if (!this.isEnabled() || this.getQueue().length === 0) {
+            return;
+        }
+        // a backend that is away keeps its reports queued without holding up those of others
+        const unreachable = new Set<string>();
+        const rejected: string[] = [];
+        for (const queued of this.getQueue()) {
+            if (queued.configurationId && !this.modelService.loaded) {
+                // sent once the configurations are loaded
+                continue;
+            }
+            const endpoint = this.resolveEndpoint(queued);
+            if (!endpoint) {
+                console.log(`The backend of the outcome report for ${queued.report.file_name} is no longer configured, dropping it: ${queued.url}`);
+                await this.context.workspaceState.update(FEEDBACK_QUEUE_KEY, this.getQueue().filter(other => !sameReport(other, queued)));
+                continue;
+            }
+            const url = getKaiRequestUrl(endpoint, route);
+            if (unreachable.has(url)) {
+                continue;
+            }
+            try {
+                await new KaiClient(endpoint).reportFixOutcome(route, queued.report);
+            }
+            catch (e) {
+                if (!isRetryable(e)) {
+                    console.error(`Kai rejected the outcome report for ${queued.report.file_name}, dropping it:`, e);
+                    rejected.push(`${url} (HTTP ${e.status})`);
+                }
+                else {
+                    console.log(`Kai feedback not sent to ${url}: ${e}`);
+                    unreachable.add(url);
+                    continue;
+                }
+            }
+            await this.context.workspaceState.update(FEEDBACK_QUEUE_KEY, this.getQueue().filter(other => !sameReport(other, queued)));
+        }
+        if (rejected.length > 0) {
+            vscode.window.showWarningMessage(`Kai did not accept the outcome of ${rejected.length} fix(es), check the kai.feedback.route setting: ${Array.from(new Set(rejected)).join(', ')}`);
+        }
+        if (unreachable.size > 0) {
+            console.log(`Retrying the Kai feedback in ${this.retryDelay / 1000}s.`);
+            this.scheduleRetry();
+        }
+        else {
+            this.retryDelay = FIRST_RETRY_DELAY;
+        }
+    }
+
+    /**
+     * Resolves the backend of the report with the current settings of its configuration, or of the
+     * kai.backend.* settings. Returns undefined when they no longer point to the backend that proposed the fix.
+     */
+    private resolveEndpoint(queued: QueuedReport): KaiEndpoint | undefined {
+        let endpoint: KaiEndpoint;
+        try {
+            endpoint = resolveKaiEndpoint(queued.configurationId ? this.modelService.getConfiguration(queued.configurationId) : undefined);
+        }
+        catch (e) {
+            return undefined;
+        }
+        return endpoint.url === queued.url ? endpoint : undefined;
+    }
+
+    private scheduleRetry(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+        }
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = undefined;
+            this.flush();
+        }, this.retryDelay);
+        this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+    }
+
+    private getQueue(): QueuedReport[] {
+        // reports queued without their backend cannot be delivered anywhere
+        return (this.context.workspaceState.get<QueuedReport[]>(FEEDBACK_QUEUE_KEY) || []).filter(queued => queued.url && queued.report);
+    }
+
+    private getRoute(): string {
+        const route = vscode.workspace.getConfiguration('kai.feedback').get<string>('route');
+        return (route === undefined || route === null ? DEFAULT_FEEDBACK_ROUTE : route).trim();
+    }
+
+    public dispose(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+        }
+    }
+}
+
+/**
+ * Client errors other than rate limiting will not go away by sending the report again.
+ */
+function isRetryable(error: any): boolean {
+    if (error instanceof KaiRequestError) {
+        return error.status >= 500 || error.status === 408 || error.status === 429;
+    }
+    return true;
+}
+
+/**
+ * Queued reports are read back from the workspace state as copies.
+ */
+function sameReport(a: QueuedReport, b: QueuedReport): boolean {
+    return a.report.timestamp === b.report.timestamp && a.report.file_name === b.report.file_name && a.report.outcome === b.report.outcome
+        && a.url === b.url;
+}
@@ -3,35 +3,61 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import { ExtensionContext, commands, window} from 'vscode';
-import { IHint, IssueContainer } from '../server/analyzerModel';
+import { IHint, IssueContainer, RhamtConfiguration } from '../server/analyzerModel';
 import { rhamtEvents } from '../events';
 import { ModelService } from '../model/modelService';
 import { FileNode } from '../tree/fileNode';
 import * as vscode from 'vscode';
-import fetch from 'node-fetch';
 import * as os from 'os';
 import * as path from 'path';
+import * as crypto from 'crypto';
+import { createFileSolutionRequest, createIncidentSolutionRequest, KaiCancelledError, KaiClient, KaiResponseError, UpdatedRelatedFile } from './kaiClient';
+import { createHunkEdit, hashContent, HunkDecision, KAI_SCHEME, KaiFixExplanation, KaiFixOrigin, KaiFixSession } from './kaiFixSession';
+import { computeHunks, DiffHunk, formatPatch, hasMergeMarkers, mergeHunks } from './kaiDiff';
+import { KaiFixHistory, KaiFixStatus } from './kaiHistory';
+import { runQueue } from './kaiQueue';
+import { KaiFeedback, KaiFixOutcome } from './kaiFeedback';
+import { IncidentSelection } from './incidentSelection';
+import { chooseRelatedFiles } from './relatedFiles';
+import { explainFileSolution, explainIncidentSolution } from './kaiFixDetailsView';
+import { getUpdatedFile, hasUpdatedFile, KaiOutputError } from './kaiOutput';
+import { escapeHtml, getNonce } from './kaiWebview';
+import { AbortController, AbortSignal } from 'abort-controller';
+
+const DEFAULT_BATCH_CONCURRENCY = 2;
+const MAX_HUNK_PREVIEW_LINES = 12;
+
+interface RelatedSource {
+    file: string;
+    content: string;
+}
 
 export class KaiFixDetails { 
     onEditorClosed = new rhamtEvents.TypedEvent<void>();
+    onSessionsChanged = new rhamtEvents.TypedEvent<void>();
+    onFocusedSessionChanged = new rhamtEvents.TypedEvent<KaiFixSession | undefined>();
     public context: ExtensionContext;
-    private kaiScheme = 'kaifixtext';
-    private tempFileUri: vscode.Uri | undefined;
-    private openedDiffEditor: vscode.TextEditor | undefined;
-    private issueFilePath: string | undefined;
+    private sessions = new Map<string, KaiFixSession>();
+    private focusedSession: KaiFixSession | undefined;
+    private incidentSelection: IncidentSelection;
+    /**
+     * Listeners waiting for the merge conflicts of an accepted fix to be resolved, by file.
+     */
+    private unresolvedMerges = new Map<string, vscode.Disposable>();
     // private acceptChangesStatusBarItem: vscode.StatusBarItem;
     // private rejectChangesStatusBarItem: vscode.StatusBarItem;
     public static readonly viewType = 'myWebView';
-    private activeDiffUri: vscode.Uri | undefined;
     private myWebviewView?: vscode.WebviewView;
     private myWebViewProvider: MyWebViewProvider;
-    private outputChannel: vscode.OutputChannel;
 
 
-    constructor(context: ExtensionContext, modelService: ModelService) {
+    constructor(context: ExtensionContext, modelService: ModelService, private history: KaiFixHistory, private feedback: KaiFeedback) {
         this.context = context;
+        this.incidentSelection = new IncidentSelection(context);
+        context.subscriptions.push({ dispose: () => this.unresolvedMerges.forEach(listener => listener.dispose()) });
         this.myWebViewProvider = new MyWebViewProvider(this);
         this.registerContentProvider();
+        this.watchDiffEditorFocus();
        // this.initStatusBarItems();
 
       context.subscriptions.push(
@@ -43,229 +69,247 @@ export class KaiFixDetails {
          // Register command handlers
         context.subscriptions.push(commands.registerCommand('rhamt.acceptChanges', this.acceptChangesCommandHandler.bind(this)));
         context.subscriptions.push(commands.registerCommand('rhamt.rejectChanges', this.rejectChangesCommandHandler.bind(this)));
+        context.subscriptions.push(commands.registerCommand('rhamt.applySelectedChanges', this.applySelectedChangesCommandHandler.bind(this)));
 
-        this.context.subscriptions.push(commands.registerCommand('rhamt.kai', async item => {
+        this.context.subscriptions.push(commands.registerCommand('rhamt.kai', async (item, selection?: any[]) => {
+            const selected = (selection || []).filter(node => node && typeof node.getIssue === 'function');
+            if (selected.length > 1) {
+                // several incidents selected in the explorer go to Kai in a single request
+                const hints = selected.map(node => (node as IssueContainer).getIssue() as IHint);
+                const files = new Set(hints.map(hint => hint.file));
+                if (files.size > 1) {
+                    vscode.window.showErrorMessage('Select incidents of a single file to send them to Kai together.');
+                    return;
+                }
+                const fileHints = hints[0].configuration._results.model.issueByFile.get(hints[0].file) || hints;
+                await this.incidentSelection.remember(hints[0].file, fileHints, fileHints.filter(hint => hints.includes(hint)));
+                await this.fixFileIncidents(hints[0].configuration, hints[0].file, hints);
+                return;
+            }
             const issue = (item as IssueContainer).getIssue();
             const hint = issue as IHint;
-            this.issueFilePath = issue.file;
+            const client = this.getClient(issue.configuration);
+            if (!client) {
+                return;
+            }
+            const filePath = issue.file;
+            const tampFileName = 'Kai-fix'+hint.lineNumber+hint.ruleId+this.getFileName(filePath);
+            if (await this.revealExistingSession(tampFileName)) {
+                return;
+            }
+            const relatedFiles = await chooseRelatedFiles(hint);
+            if (!relatedFiles) {
+                return;
+            }
             const fs = require('fs').promises;
-            this.outputChannel = vscode.window.createOutputChannel("Kai-Fix Result");
-            this.outputChannel.show(true);
+            const outputChannel = vscode.window.createOutputChannel("Kai-Fix Result");
+            outputChannel.show(true);
             let workspaceFolder = vscode.workspace.workspaceFolders[0].name;
-            this.outputChannel.appendLine("Generating the fix: ");
-            this.outputChannel.appendLine(`Appname Name: ${workspaceFolder}.`);
-            this.outputChannel.appendLine(`Ruleset Name: ${hint.rulesetName}.`);
-            this.outputChannel.appendLine(`Ruleset ID: ${hint.ruleId}.`);
-            this.outputChannel.appendLine(`Variables: ${JSON.stringify(hint.variables, null, 2)}`);
-            const content = await fs.readFile(this.issueFilePath, { encoding: 'utf8' });
-       
-                const postData = {
-                application_name: workspaceFolder,
-                violation_name: hint.ruleId,
-                ruleset_name: hint.rulesetName,
-                incident_snip: hint.sourceSnippet, 
-                incident_variables: {
-                    file: hint.variables['file'] || '',
-                    kind: hint.variables['kind'] || '',
-                    name: hint.variables['name'] || '',
-                    package: hint.variables['package'] || '',
-                },
-                file_name: hint.file.replace(vscode.workspace.workspaceFolders[0].uri.path + "/", ""),
-                file_contents: content,
-                line_number: hint.lineNumber,
-                analysis_message: hint.hint,
-            };
-
-            const url = 'http://0.0.0.0:8080/get_incident_solution';
-            const headers = {
-                'Content-Type': 'application/json',
-            };
-            const statusBarMessage = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 50);
-            let currentFrame = 0;
-            const frames = ['$(sync~spin) Generating Fix..', '$(sync~spin) Generating Fix..', '$(sync~spin) Generating Fix..'];
-        
-            // Start spinner
-            statusBarMessage.text = frames[0];
-            statusBarMessage.show();
-            const spinner = setInterval(() => {
-                statusBarMessage.text = frames[currentFrame];
-                currentFrame = (currentFrame + 1) % frames.length;
-            }, 500); // Change spinner frame every 500ms
-           
-            try {
-                const response = await fetch(url, {
-                    method: 'POST',
-                    headers: headers,
-                    body: JSON.stringify(postData),
-                });
-                
-                clearInterval(spinner);
-                statusBarMessage.hide();
-
-                if (!response.ok) {
-                    vscode.window.showInformationMessage(` Error: ${response.toString}.`);
-                    vscode.window.showInformationMessage(` response: ${await response.text()}.`);
-                    throw new Error(`HTTP error! status: ${response.status}`);  
-                }
-                //vscode.window.showInformationMessage(`Yay! Kyma ${response.status}.`);
-                const responseText = await response.text(); // Get the raw response text
-                console.log(responseText);
-
-               
-                const formattedOutput = this.displayFormattedLLMOutput(responseText);
-                this.outputChannel.appendLine(formattedOutput);
-                const updatedFile = this.getUpdatedFileSection(formattedOutput);
-                // Create a virtual document URI using the custom scheme
-                //const encodedText = encodeURIComponent(responseText);
-               const virtualDocumentUri = vscode.Uri.parse(`${this.kaiScheme}:${this.issueFilePath}`);
-               
-            
-            const tampFileName = 'Kai-fix'+hint.lineNumber+hint.ruleId+this.getFileName(this.issueFilePath);
-            this.outputChannel.appendLine(`Temp Filename: ${tampFileName}.`);
-            // Generate a unique temp file path
-            this.tempFileUri = await this.writeToTempFile(updatedFile,tampFileName);
-
-            await vscode.commands.executeCommand('vscode.diff', virtualDocumentUri, this.tempFileUri, `Current ⟷ KaiFix`, {
-                preview: true,
-            }).then(() => {
-                this.myWebViewProvider.updateWebview(true);
-                this.openedDiffEditor = vscode.window.activeTextEditor;
-                this.activeDiffUri = virtualDocumentUri; 
-            });
-            
-            this.watchDiffEditorClose();
-           
+            outputChannel.appendLine("Generating the fix: ");
+            outputChannel.appendLine(`Appname Name: ${workspaceFolder}.`);
+            outputChannel.appendLine(`Ruleset Name: ${hint.rulesetName}.`);
+            outputChannel.appendLine(`Ruleset ID: ${hint.ruleId}.`);
+            outputChannel.appendLine(`Variables: ${JSON.stringify(hint.variables, null, 2)}`);
+            const content = await fs.readFile(filePath, { encoding: 'utf8' });
+            const related: RelatedSource[] = [];
+            for (const file of relatedFiles) {
+                related.push({ file, content: await fs.readFile(file, { encoding: 'utf8' }) });
+            }
+            if (related.length > 0) {
+                outputChannel.appendLine(`Related Files: ${related.map(source => this.getRelativeFileName(source.file)).join(', ')}`);
+            }
 
+            const request = createIncidentSolutionRequest(hint, workspaceFolder, this.getRelativeFileName(filePath), content,
+                related.map(source => ({ file_name: this.getRelativeFileName(source.file), file_contents: source.content })));
+            const origin: KaiFixOrigin = { incidentIds: [hint.id], ruleIds: [hint.ruleId] };
 
+            let llmOutput = '';
+            let relatedUpdates: UpdatedRelatedFile[] = [];
+            try {
+                const tempFileUri = await this.withKaiProgress(tampFileName, outputChannel, async (signal, setStatus) => {
+                    let streamed = '';
+                    const response = await client.streamIncidentSolution(request, text => {
+                        if (!streamed) {
+                            outputChannel.appendLine('---- LLM Output: ----');
+                        }
+                        streamed += text;
+                        outputChannel.append(text);
+                        if (hasUpdatedFile(streamed)) {
+                            setStatus('Updated file received, waiting for Kai to finish');
+                        }
+                    }, signal);
+                    if (streamed) {
+                        outputChannel.appendLine('');
+                    }
+                    else {
+                        outputChannel.appendLine(response.llm_output);
+                    }
+                    llmOutput = response.llm_output;
+                    relatedUpdates = response.updated_related_files || [];
+                    return getUpdatedFile(llmOutput);
+                });
+                outputChannel.appendLine(`Temp Filename: ${tampFileName}.`);
+                const session = new KaiFixSession(tempFileUri, filePath, content, origin, outputChannel);
+                session.endpoint = client.endpoint;
+                session.explanation = explainIncidentSolution(llmOutput, [hint]);
+                await this.openSession(session);
+                await this.addRelatedSessions(session, tampFileName, related, relatedUpdates, outputChannel);
             } catch (error) {
-                console.error('Error making POST request:', error);
-                vscode.window.showErrorMessage(`Failed to perform the operation. ${error}`);
+                this.reportRequestError(error, outputChannel);
             }
         }));
 
+        this.context.subscriptions.push(commands.registerCommand('rhamt.kaiFixAllFiles', this.fixAllFiles.bind(this)));
+        context.subscriptions.push(commands.registerCommand('rhamt.acceptAllChanges', this.acceptAllChangesCommandHandler.bind(this)));
+
         this.context.subscriptions.push(commands.registerCommand('rhamt.Kai-Fix-Files', async item => {
             const fileNode = item as FileNode;
-             this.issueFilePath = fileNode.file;
             const issueByFileMap = fileNode.getConfig()._results.model.issueByFile;
-            //vscode.window.showInformationMessage(`TOTAL Issues: ${issueByFileMap.size}`);
-            const issueByFile = issueByFileMap.get(fileNode.file);
-            
-            // if (issueByFile && issueByFile.length > 0) {
-            //     let issuesList = issueByFile.map(hint => hint.ruleId || 'Unnamed issue').join('\n');
-            //     vscode.window.showInformationMessage(`Issues BY FILE (${issueByFile.length}):\n${issuesList}`);
-            // } else {
-            //     vscode.window.showInformationMessage('No issues for this file.');
-            // }
+            const hints = await this.incidentSelection.pick(fileNode.file, issueByFileMap.get(fileNode.file) || []);
+            if (hints) {
+                await this.fixFileIncidents(fileNode.getConfig(), fileNode.file, hints);
+            }
+        }));
 
+    }
 
-            const fs = require('fs').promises;
-            this.outputChannel = vscode.window.createOutputChannel("Kai-Fix All");
-            this.outputChannel.show(true);
-            let workspaceFolder = vscode.workspace.workspaceFolders[0].name;
-            this.outputChannel.appendLine("Generating the fix: ");
-            this.outputChannel.appendLine(`Appname Name: ${workspaceFolder}.`);
-            this.outputChannel.appendLine(`Incidents: ${JSON.stringify(this.formatHintsToIncidents(issueByFile), null, 2)}`);
-            const content = await fs.readFile(this.issueFilePath, { encoding: 'utf8' });
-            
-            let incidents;
-            if (issueByFile) {
-                 incidents = this.formatHintsToIncidents(issueByFile);
-            } else {
-                incidents = [];
-            }
+    /**
+     * Sends the given incidents of a file to Kai in a single request and opens the proposed fix.
+     */
+    private async fixFileIncidents(config: RhamtConfiguration, filePath: string, hints: IHint[]): Promise<void> {
+        const client = this.getClient(config);
+        if (!client) {
+            return;
+        }
+        const tampFileName = this.getFileFixTempName(filePath);
+        if (await this.revealExistingSession(tampFileName)) {
+            return;
+        }
 
-            const postData = {
-                file_name: this.issueFilePath.replace(vscode.workspace.workspaceFolders[0].uri.path + "/", ""),
-                file_contents: content,
-                application_name: workspaceFolder,
-                incidents: incidents,
-                include_llm_results: "True"
-            };
-
-           
-
-            const url = 'http://0.0.0.0:8080/get_incident_solutions_for_file';
-            const headers = {
-                'Content-Type': 'application/json',
-            };
-            const statusBarMessage = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 50);
-            let currentFrame = 0;
-            const frames = ['$(sync~spin) Generating Fix..', '$(sync~spin) Generating Fix..', '$(sync~spin) Generating Fix..'];
-        
-            // Start spinner
-            statusBarMessage.text = frames[0];
-            statusBarMessage.show();
-            const spinner = setInterval(() => {
-                statusBarMessage.text = frames[currentFrame];
-                currentFrame = (currentFrame + 1) % frames.length;
-            }, 500); // Change spinner frame every 500ms
-           
-            try {
-                const response = await fetch(url, {
-                    method: 'POST',
-                    headers: headers,
-                    body: JSON.stringify(postData),
-                });
-                
-                clearInterval(spinner);
-                statusBarMessage.hide();
-
-                if (!response.ok) {
-                    vscode.window.showInformationMessage(` Error: ${response.toString}.`);
-                    vscode.window.showInformationMessage(` response: ${await response.text()}.`);
-                    throw new Error(`HTTP error! status: ${response.status}`);  
-                }
-               // vscode.window.showInformationMessage(`Yay! Kyma ${response.status}.`);
-                const responseText = await response.text(); // Get the raw response text
-                console.log(responseText);
-     
-
-               
-            const updatedFile = this.extractUpdatedFile(responseText);
-            const virtualDocumentUri = vscode.Uri.parse(`${this.kaiScheme}:${this.issueFilePath}`);
-            
-            
-            const total_Reasoning = this.extractTotalReasoning(responseText);
-            this.outputChannel.appendLine(`---- Total Reasoning: ---- \n ${total_Reasoning}\n`);
-            
-
-            const used_prompts = this.extractUsedPrompts(responseText);
-            this.outputChannel.appendLine(`---- Used Prompts: ---- \n${used_prompts}\n`);
-
-            const model_id = this.extractModelID(responseText);
-            this.outputChannel.appendLine(`---- Model Id: ---- \n${model_id}\n`);
-
-            const additional_information = this.extractAdditionalInformation(responseText);
-            this.outputChannel.appendLine(`---- Additional Infomation: ---- \n${additional_information}\n`);
-
-            const llm_results = this.extractLlmResults(responseText);
-            this.outputChannel.appendLine(`---- LLM Result: ---- \n${llm_results}\n`);
-
-            this.outputChannel.appendLine(`---- Updated File: ---- \n${updatedFile}`);
-
-            const tampFileName = 'Kai-fix-All-'+this.getFileName(this.issueFilePath);
-            this.outputChannel.appendLine(`Temp Filename: ${tampFileName}.`);
-            // Generate a unique temp file path
-            this.tempFileUri = await this.writeToTempFile(updatedFile,tampFileName);
-
-            await vscode.commands.executeCommand('vscode.diff', virtualDocumentUri, this.tempFileUri, `Current ⟷ KaiFix`, {
-                preview: true,
-            }).then(() => {
-                this.myWebViewProvider.updateWebview(true);
-                this.openedDiffEditor = vscode.window.activeTextEditor;
-                this.activeDiffUri = virtualDocumentUri; 
+        const fs = require('fs').promises;
+        const outputChannel = vscode.window.createOutputChannel("Kai-Fix All");
+        outputChannel.show(true);
+        let workspaceFolder = vscode.workspace.workspaceFolders[0].name;
+        const content = await fs.readFile(filePath, { encoding: 'utf8' });
+        const request = createFileSolutionRequest(hints, workspaceFolder, this.getRelativeFileName(filePath), content);
+        const origin: KaiFixOrigin = {
+            incidentIds: hints.map(issue => issue.id),
+            ruleIds: Array.from(new Set(hints.map(issue => issue.ruleId))),
+        };
+        outputChannel.appendLine("Generating the fix: ");
+        outputChannel.appendLine(`Appname Name: ${workspaceFolder}.`);
+        outputChannel.appendLine(`Incidents: ${JSON.stringify(request.incidents, null, 2)}`);
+
+        let explanation: KaiFixExplanation;
+        try {
+            const tempFileUri = await this.withKaiProgress(tampFileName, outputChannel, async signal => {
+                const response = await client.getIncidentSolutionsForFile(request, signal);
+                origin.modelId = response.model_id;
+                explanation = explainFileSolution(response, hints);
+                outputChannel.appendLine(`Model Id: ${response.model_id}`);
+                outputChannel.appendLine('The reasoning, prompts and LLM results are shown in the Kai Fix Details view.');
+                return response.updated_file;
             });
-            
-            this.watchDiffEditorClose();
+            outputChannel.appendLine(`Temp Filename: ${tampFileName}.`);
+            const session = new KaiFixSession(tempFileUri, filePath, content, origin, outputChannel);
+            session.endpoint = client.endpoint;
+            session.explanation = explanation;
+            await this.openSession(session);
+        } catch (error) {
+            this.reportRequestError(error, outputChannel);
+        }
+    }
 
-            } catch (error) {
-                console.error('Error making POST request:', error);
-                vscode.window.showErrorMessage(`Failed to perform the operation. ${error}`);
-            }
-        }));
+    /**
+     * Requests fixes for every file with incidents in the configuration of the selected node,
+     * with at most kai.batch.concurrency requests in flight, and queues them for review.
+     */
+    private async fixAllFiles(item: any): Promise<void> {
+        const config = item ? item.config as RhamtConfiguration : undefined;
+        if (!config || !config.results) {
+            vscode.window.showErrorMessage('Run the analysis before requesting Kai fixes for all files.');
+            return;
+        }
+        const client = this.getClient(config);
+        if (!client) {
+            return;
+        }
+        const issueByFile = config.results.model.issueByFile;
+        const files = Array.from(issueByFile.keys()).filter(file =>
+            !this.sessions.has(KaiFixSession.keyOf(this.getTempFileUri(this.getFileFixTempName(file)))));
+        if (files.length === 0) {
+            vscode.window.showInformationMessage('Every file with incidents already has a Kai fix awaiting review.');
+            return;
+        }
+        const concurrency = vscode.workspace.getConfiguration('kai.batch').get<number>('concurrency') || DEFAULT_BATCH_CONCURRENCY;
+        const outputChannel = vscode.window.createOutputChannel('Kai-Fix All Files');
+        outputChannel.show(true);
+        outputChannel.appendLine(`Requesting Kai fixes for ${files.length} file(s), ${concurrency} at a time.`);
+
+        const controller = new AbortController();
+        let generated = 0;
+        let failed = 0;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Kai-Fix All Files',
+            cancellable: true
+        }, async (progress, token) => {
+            token.onCancellationRequested(() => controller.abort());
+            progress.report({ message: `0 of ${files.length} files` });
+            await runQueue(files, concurrency, async file => {
+                const hints = this.incidentSelection.getRemembered(file, issueByFile.get(file) || []);
+                const session = await this.requestFileFix(client, file, hints, controller.signal);
+                await this.addSession(session);
+            }, result => {
+                if (result.error) {
+                    if (result.error instanceof KaiCancelledError) {
+                        return;
+                    }
+                    failed++;
+                    outputChannel.appendLine(`Failed: ${this.getRelativeFileName(result.item)}: ${result.error}`);
+                }
+                else {
+                    generated++;
+                    outputChannel.appendLine(`Fixed: ${this.getRelativeFileName(result.item)}`);
+                }
+                progress.report({
+                    increment: 100 / files.length,
+                    message: `${generated + failed} of ${files.length} files${failed > 0 ? ` (${failed} failed)` : ''}`
+                });
+            }, controller.signal);
+        });
 
+        const summary = `Kai generated fixes for ${generated} of ${files.length} file(s)${failed > 0 ? `, ${failed} failed` : ''}${controller.signal.aborted ? ' before the batch was cancelled' : ''}.`;
+        outputChannel.appendLine(summary);
+        if (generated > 0) {
+            vscode.window.showInformationMessage(summary, 'Open Review Queue').then(action => {
+                if (action === 'Open Review Queue') {
+                    vscode.commands.executeCommand('kaiReviewQueueView.focus');
+                }
+            });
+        }
+        else {
+            vscode.window.showWarningMessage(summary);
+        }
+    }
 
+    private async requestFileFix(client: KaiClient, filePath: string, hints: IHint[], signal: AbortSignal): Promise<KaiFixSession> {
+        const fs = require('fs').promises;
+        const content = await fs.readFile(filePath, { encoding: 'utf8' });
+        const workspaceFolder = vscode.workspace.workspaceFolders[0].name;
+        const request = createFileSolutionRequest(hints, workspaceFolder, this.getRelativeFileName(filePath), content);
+        const response = await client.getIncidentSolutionsForFile(request, signal);
+        const tempFileUri = await this.writeToTempFile(response.updated_file, this.getFileFixTempName(filePath));
+        const session = new KaiFixSession(tempFileUri, filePath, content, {
+            incidentIds: (hints || []).map(hint => hint.id),
+            ruleIds: Array.from(new Set((hints || []).map(hint => hint.ruleId))),
+            modelId: response.model_id,
+        });
+        session.endpoint = client.endpoint;
+        session.explanation = explainFileSolution(response, hints || []);
+        return session;
     }
+
     public setWebviewView(webviewView: vscode.WebviewView): void {
         this.myWebviewView = webviewView;
         this.myWebviewView?.show(false);
@@ -274,6 +318,235 @@ export class KaiFixDetails {
         return this.context;
     }
 
+    private getClient(config: RhamtConfiguration): KaiClient | undefined {
+        try {
+            return KaiClient.forConfiguration(config);
+        }
+        catch (e) {
+            console.error('Error resolving Kai backend:', e);
+            vscode.window.showErrorMessage(`Kai backend is not configured correctly. ${e.message}`, 'Open Settings').then(action => {
+                if (action === 'Open Settings') {
+                    vscode.commands.executeCommand('workbench.action.openSettings', 'kai.backend');
+                }
+            });
+            return undefined;
+        }
+    }
+
+    /**
+     * Runs a Kai request under a cancellable progress notification and writes the proposed
+     * file to a temp file. Cancelling aborts the request, disposes the output channel and
+     * removes any temp file that was written in the meantime. The request may replace the
+     * progress message through setStatus, the elapsed time is always appended.
+     */
+    private async withKaiProgress(tempFileName: string, outputChannel: vscode.OutputChannel, request: (signal: AbortSignal, setStatus: (status: string) => void) => Promise<string>): Promise<vscode.Uri> {
+        const statusBarMessage = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 50);
+        statusBarMessage.text = '$(sync~spin) Generating Fix..';
+        statusBarMessage.show();
+        const controller = new AbortController();
+        let tempFileUri: vscode.Uri | undefined;
+        try {
+            return await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Kai',
+                cancellable: true
+            }, async (progress, token) => {
+                token.onCancellationRequested(() => controller.abort());
+                const start = Date.now();
+                let status = 'Generating fix...';
+                const reportElapsed = () => {
+                    const elapsed = Math.floor((Date.now() - start) / 1000);
+                    progress.report({ message: `${status} (${elapsed}s elapsed)` });
+                };
+                const setStatus = (newStatus: string) => {
+                    if (newStatus !== status) {
+                        status = newStatus;
+                        reportElapsed();
+                    }
+                };
+                reportElapsed();
+                const timer = setInterval(reportElapsed, 1000);
+                try {
+                    const updatedFile = await request(controller.signal, setStatus);
+                    tempFileUri = await this.writeToTempFile(updatedFile, tempFileName);
+                    if (controller.signal.aborted) {
+                        throw new KaiCancelledError();
+                    }
+                    return tempFileUri;
+                }
+                finally {
+                    clearInterval(timer);
+                }
+            });
+        }
+        catch (e) {
+            if (controller.signal.aborted || e instanceof KaiCancelledError) {
+                await this.cleanupCancelledRequest(outputChannel, tempFileUri);
+                throw new KaiCancelledError();
+            }
+            throw e;
+        }
+        finally {
+            statusBarMessage.dispose();
+        }
+    }
+
+    private async cleanupCancelledRequest(outputChannel: vscode.OutputChannel, tempFileUri?: vscode.Uri): Promise<void> {
+        if (tempFileUri) {
+            try {
+                await vscode.workspace.fs.delete(tempFileUri);
+            }
+            catch (e) {
+                console.log(`Error deleting temp file ${tempFileUri.fsPath}: ${e}`);
+            }
+        }
+        outputChannel.dispose();
+    }
+
+    public getSessions(): KaiFixSession[] {
+        return Array.from(this.sessions.values());
+    }
+
+    /**
+     * Adds a session for each related file Kai changed along with the incident's file. They
+     * share the group of the incident's session and are reviewed from the Kai Review Queue.
+     */
+    private async addRelatedSessions(primary: KaiFixSession, tempFileName: string, related: RelatedSource[], updates: UpdatedRelatedFile[], outputChannel: vscode.OutputChannel): Promise<void> {
+        const changed: { source: RelatedSource, updatedFile: string }[] = [];
+        for (const update of updates) {
+            const source = related.find(candidate => this.getRelativeFileName(candidate.file) === update.file_name);
+            if (!source) {
+                outputChannel.appendLine(`Ignored the change Kai proposed to ${update.file_name}, the file was not sent with the request.`);
+            }
+            else if (update.updated_file.trim() && update.updated_file !== source.content) {
+                changed.push({ source, updatedFile: update.updated_file });
+            }
+        }
+        if (changed.length === 0) {
+            return;
+        }
+        primary.origin.groupId = primary.key;
+        for (const change of changed) {
+            const id = crypto.createHash('sha1').update(change.source.file).digest('hex').substring(0, 8);
+            const tempFileUri = await this.writeToTempFile(change.updatedFile, `${tempFileName}-related-${id}-${this.getFileName(change.source.file)}`);
+            const session = new KaiFixSession(tempFileUri, change.source.file, change.source.content, { ...primary.origin });
+            session.endpoint = primary.endpoint;
+            session.explanation = primary.explanation;
+            await this.addSession(session);
+        }
+        outputChannel.appendLine(`Related Changes: ${changed.map(change => this.getRelativeFileName(change.source.file)).join(', ')}`);
+        vscode.window.showInformationMessage(`Kai also changed ${changed.length} related file(s). Review them in the Kai Review Queue.`, 'Open Review Queue').then(action => {
+            if (action === 'Open Review Queue') {
+                vscode.commands.executeCommand('kaiReviewQueueView.focus');
+            }
+        });
+    }
+
+    /**
+     * Returns the sessions of the fix the given session belongs to that are still awaiting review.
+     */
+    public getGroup(session: KaiFixSession): KaiFixSession[] {
+        const groupId = session.origin.groupId;
+        if (!groupId) {
+            return [session];
+        }
+        return this.getSessions().filter(candidate => candidate.origin.groupId === groupId);
+    }
+
+    /**
+     * Asks whether the other files of a multi-file fix are accepted or rejected along with the
+     * given one. Returns undefined when the user cancels.
+     */
+    private async confirmGroup(session: KaiFixSession, verb: string): Promise<KaiFixSession[] | undefined> {
+        const others = this.getGroup(session).filter(candidate => candidate !== session);
+        if (others.length === 0) {
+            return [session];
+        }
+        const choice = await vscode.window.showInformationMessage(
+            `This Kai fix also changes ${others.map(other => other.fileName).join(', ')}. ${verb} the changes to all ${others.length + 1} files?`,
+            { modal: true }, 'All Files', 'This File Only');
+        if (!choice) {
+            return undefined;
+        }
+        return choice === 'All Files' ? [session, ...others] : [session];
+    }
+
+    /**
+     * Adds a session awaiting review without opening its diff.
+     */
+    private async addSession(session: KaiFixSession): Promise<void> {
+        const previous = this.sessions.get(session.key);
+        if (previous && previous !== session) {
+            previous.dispose();
+        }
+        this.sessions.set(session.key, session);
+        await this.refreshHunks(session);
+        this.onSessionsChanged.emit(undefined);
+    }
+
+    private async openSession(session: KaiFixSession): Promise<void> {
+        await this.addSession(session);
+        await session.openDiff();
+        this.setFocusedSession(session);
+    }
+
+    public async openSessionDiff(session: KaiFixSession): Promise<void> {
+        await session.openDiff();
+        this.setFocusedSession(session);
+    }
+
+    /**
+     * Recomputes the hunks between the file as it was sent to Kai and the proposal, including unsaved
+     * edits to the proposal, and returns the proposal.
+     */
+    private async refreshHunks(session: KaiFixSession): Promise<string> {
+        const proposed = (await vscode.workspace.openTextDocument(session.tempFileUri)).getText();
+        if (session.proposal === undefined) {
+            session.proposal = proposed;
+        }
+        session.setHunks(computeHunks(session.snapshot, proposed));
+        return proposed;
+    }
+
+    /**
+     * Brings the diff of a fix that is still awaiting review back into focus instead of requesting it again.
+     */
+    private async revealExistingSession(tempFileName: string): Promise<boolean> {
+        const session = this.sessions.get(KaiFixSession.keyOf(this.getTempFileUri(tempFileName)));
+        if (!session) {
+            return false;
+        }
+        await session.openDiff();
+        this.setFocusedSession(session);
+        vscode.window.showInformationMessage(`A Kai fix for ${session.fileName} is already open. Accept or reject it before requesting a new one.`);
+        return true;
+    }
+
+    private reportRequestError(error: any, outputChannel: vscode.OutputChannel): void {
+        if (error instanceof KaiCancelledError) {
+            vscode.window.showInformationMessage('Kai fix request cancelled.');
+            return;
+        }
+        console.error('Error making POST request:', error);
+        if (error instanceof KaiResponseError) {
+            outputChannel.appendLine(error.message);
+            vscode.window.showErrorMessage(`Kai returned an unexpected response (${error.violations.length} problem(s)). See the output channel for details.`);
+        }
+        else if (error instanceof KaiOutputError) {
+            outputChannel.appendLine(error.message);
+            vscode.window.showErrorMessage(`Kai did not propose a usable fix. ${error.message}`);
+        }
+        else {
+            vscode.window.showErrorMessage(`Failed to perform the operation. ${error}`);
+            // the backend may have gone away since the last health check
+            vscode.commands.executeCommand('rhamt.checkKaiHealth');
+        }
+    }
+
+    private getRelativeFileName(file: string): string {
+        return file.replace(vscode.workspace.workspaceFolders[0].uri.path + "/", "");
+    }
+
     // private initStatusBarItems(): void {
     //     this.acceptChangesStatusBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 100);
     //     this.acceptChangesStatusBarItem.command = "rhamt.acceptChanges";
@@ -287,8 +560,17 @@ export class KaiFixDetails {
     //     this.context.subscriptions.push(this.acceptChangesStatusBarItem, this.rejectChangesStatusBarItem);
     // }
 
-    private watchDiffEditorClose(): void {
-        //vscode.window.showInformationMessage(`watchDiffEditorClose`);
+    private watchDiffEditorFocus(): void {
+        this.context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async event => {
+            const uri = event.document.uri.toString();
+            const changed = Array.from(this.sessions.values()).filter(session => session.tempFileUri.toString() === uri);
+            for (const session of changed) {
+                await this.refreshHunks(session);
+                if (session === this.focusedSession) {
+                    this.myWebViewProvider.updateWebview(session);
+                }
+            }
+        }));
         this.context.subscriptions.push(window.onDidChangeActiveTextEditor(this.handleActiveEditorChange.bind(this)));
         this.context.subscriptions.push(vscode.window.onDidChangeWindowState(windowState => {
             if (windowState.focused) {
@@ -297,55 +579,186 @@ export class KaiFixDetails {
         }));
     }
     private handleActiveEditorChange(editor?: vscode.TextEditor): void {
-        let diffFocused = false;
-
+        // focus moving to a view such as the Kai Fix Actions webview leaves no active editor, keep the last session then
         if (editor) {
-            const activeDocumentUri = editor.document.uri;
-            if (this.activeDiffUri && (activeDocumentUri.toString() === this.activeDiffUri.toString() || activeDocumentUri.toString() === this.tempFileUri?.toString())) {
-                diffFocused = true;
-            }
+            this.setFocusedSession(this.findSession(editor.document.uri));
         }
         // this.acceptChangesStatusBarItem[diffFocused ? 'show' : 'hide']();
         // this.rejectChangesStatusBarItem[diffFocused ? 'show' : 'hide']();
-        this.myWebViewProvider.updateWebview(diffFocused);
+    }
+    private setFocusedSession(session: KaiFixSession | undefined): void {
+        const changed = this.focusedSession !== session;
+        this.focusedSession = session;
+        this.myWebViewProvider.updateWebview(session);
+        if (changed) {
+            this.onFocusedSessionChanged.emit(session);
+        }
+    }
+    private findSession(uri: vscode.Uri): KaiFixSession | undefined {
+        return Array.from(this.sessions.values()).find(session => session.matches(uri));
+    }
+    /**
+     * Returns the session whose diff editor is active, or the one last focused.
+     */
+    private getFocusedSession(): KaiFixSession | undefined {
+        const editor = vscode.window.activeTextEditor;
+        const session = editor ? this.findSession(editor.document.uri) : undefined;
+        return session || (this.focusedSession && this.sessions.has(this.focusedSession.key) ? this.focusedSession : undefined);
     }
     private async saveSpecificFile(tempFileUri: vscode.Uri): Promise<boolean> {
-        
-        const editor = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === tempFileUri.toString());
-        if (editor) {
-            //await vscode.window.showTextDocument(editor.document, { preview: false, preserveFocus: true });
-            await vscode.commands.executeCommand('workbench.action.files.save');
-            return true; 
-        }  
-        return false; 
+        const document = vscode.workspace.textDocuments.find(document => document.uri.toString() === tempFileUri.toString());
+        if (document && document.isDirty) {
+            return document.save();
+        }
+        return false;
     }
-    private async applyChangesAndDeleteTempFile(originalFileUri: vscode.Uri, tempFileUri: vscode.Uri): Promise<void> {
+    /**
+     * Applies the given hunks, or all of them, to the original file as a single undoable edit,
+     * then discards the proposal. When the file changed since it was sent to Kai the user may
+     * merge the proposal into the current contents instead, conflicts are left as merge markers.
+     */
+    private async applyChangesAndDeleteTempFile(session: KaiFixSession, hunks?: DiffHunk[], notify: boolean = true): Promise<boolean> {
         try {
+            await this.saveSpecificFile(session.tempFileUri);
+            const proposed = await this.refreshHunks(session);
+            const selected = hunks ? hunks : session.getHunks();
+            const edited = proposed !== session.proposal || selected.length !== session.getHunks().length;
 
-            const saved = await this.saveSpecificFile(tempFileUri);
-                if (saved) {
-                   // vscode.window.showInformationMessage('Temp file saved.');
-                } else {
-                    vscode.window.showInformationMessage('Temp file was not open in an editor, or it was not dirty.');
+            const document = await vscode.workspace.openTextDocument(session.originalUri);
+            const text = document.getText();
+            let edit: vscode.WorkspaceEdit;
+            let conflicts = 0;
+            if (!session.hasDrifted(text)) {
+                edit = createHunkEdit(document, selected);
+            }
+            else {
+                const choice = await vscode.window.showWarningMessage(
+                    `${session.fileName} has changed since the fix was generated. Merge the fix into the current contents?`,
+                    { modal: true }, 'Merge');
+                if (choice !== 'Merge') {
+                    return false;
                 }
-                const tempFileContent = await vscode.workspace.fs.readFile(tempFileUri);
+                const lineEnding = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+                const merged = mergeHunks(session.snapshot, text, selected, lineEnding);
+                conflicts = merged.conflicts;
+                edit = new vscode.WorkspaceEdit();
+                edit.replace(document.uri, new vscode.Range(document.positionAt(0), document.positionAt(text.length)), merged.text);
+            }
+            if (selected.length > 0) {
+                if (!await vscode.workspace.applyEdit(edit)) {
+                    throw new Error(`The edit to ${session.fileName} was rejected.`);
+                }
+                if (conflicts === 0) {
+                    await document.save();
+                }
+                await this.recordFix(session, edited ? 'edited' : 'accepted', text, document.getText());
+            }
 
-                await vscode.workspace.fs.writeFile(originalFileUri, tempFileContent);
-    
-                await vscode.workspace.fs.delete(tempFileUri);
-                
-                await this.closeEditor(this.openedDiffEditor);
-            
-            vscode.window.showInformationMessage('Changes applied successfully.');
+            await vscode.workspace.fs.delete(session.tempFileUri);
+            await this.closeDiffEditor(session);
+
+            if (selected.length > 0 && conflicts === 0) {
+                await this.completeFix(session);
+            }
+            if (conflicts > 0) {
+                this.completeFixWhenResolved(session);
+                await vscode.window.showTextDocument(document);
+                vscode.window.showWarningMessage(`${conflicts} change(s) to ${session.fileName} conflict with edits made since the fix was generated. Resolve the merge markers and save the file.`);
+            }
+            else if (notify) {
+                vscode.window.showInformationMessage(`Applied ${selected.length} of ${session.getHunks().length} change(s) to ${session.fileName}.`);
+            }
         } catch (error) {
             console.error('Failed to apply changes or delete temporary file:', error);
             vscode.window.showErrorMessage('Failed to apply changes to the original file.');
+            return false;
+        }
+        return true;
+    }
+    /**
+     * Marks the incidents of an applied fix as resolved and re-analyzes its file if configured.
+     */
+    private async completeFix(session: KaiFixSession): Promise<void> {
+        await vscode.commands.executeCommand('rhamt.resolveIncidents', session.origin.incidentIds);
+        if (vscode.workspace.getConfiguration('kai').get<boolean>('reanalyzeOnAccept')) {
+            vscode.commands.executeCommand('rhamt.reanalyzeFiles', [session.filePath]);
         }
     }
+
+    /**
+     * Completes a fix merged with conflicts once its file is saved without merge markers.
+     */
+    private completeFixWhenResolved(session: KaiFixSession): void {
+        const previous = this.unresolvedMerges.get(session.filePath);
+        if (previous) {
+            previous.dispose();
+        }
+        const listener = vscode.workspace.onDidSaveTextDocument(document => {
+            if (document.uri.fsPath !== session.originalUri.fsPath || hasMergeMarkers(document.getText())) {
+                return;
+            }
+            listener.dispose();
+            this.unresolvedMerges.delete(session.filePath);
+            this.completeFix(session);
+        });
+        this.unresolvedMerges.set(session.filePath, listener);
+    }
+
+    /**
+     * Adds a fix to the history and reports its outcome to Kai. Accepted fixes record the change
+     * between the file before and after applying it, rejected fixes the change Kai proposed.
+     */
+    private async recordFix(session: KaiFixSession, outcome: KaiFixOutcome, before: string, after?: string): Promise<void> {
+        const status: KaiFixStatus = outcome === 'rejected' ? 'rejected' : 'accepted';
+        const patch = after !== undefined ? computeHunks(before, after) : session.getHunks();
+        try {
+            await this.history.add({
+                status,
+                file: session.filePath,
+                ...session.origin,
+                originalHash: hashContent(before),
+                patch,
+                reversePatch: after !== undefined ? computeHunks(after, before) : undefined,
+            });
+        }
+        catch (e) {
+            console.log(`Error recording Kai fix history: ${e}`);
+        }
+        if (!this.feedback.isEnabled()) {
+            return;
+        }
+        const fileName = this.getRelativeFileName(session.filePath);
+        let comment: string | undefined;
+        if (vscode.workspace.getConfiguration('kai.feedback').get<boolean>('askForComment')) {
+            comment = await vscode.window.showInputBox({
+                prompt: `Optional comment for Kai on why the fix of ${session.fileName} was ${outcome}`,
+                ignoreFocusOut: true
+            });
+        }
+        this.feedback.report({
+            outcome,
+            application_name: vscode.workspace.workspaceFolders[0].name,
+            file_name: fileName,
+            incident_ids: session.origin.incidentIds,
+            rule_ids: session.origin.ruleIds,
+            model_id: session.origin.modelId,
+            diff: formatPatch(patch, `a/${fileName}`, `b/${fileName}`),
+            comment: comment || undefined,
+            timestamp: new Date().toISOString(),
+        }, session.endpoint).catch(e => console.log(`Error reporting Kai fix outcome: ${e}`));
+    }
+    /**
+     * Temp file name of a whole-file fix, unique per path since many files of a project share a name.
+     */
+    private getFileFixTempName(filePath: string): string {
+        const id = crypto.createHash('sha1').update(filePath).digest('hex').substring(0, 8);
+        return `Kai-fix-All-${id}-${this.getFileName(filePath)}`;
+    }
+    private getTempFileUri(kaifixFilename: string): vscode.Uri {
+        return vscode.Uri.file(path.join(os.tmpdir(), kaifixFilename));
+    }
     private async writeToTempFile(content: string, kaifixFilename: string): Promise<vscode.Uri> {
-        // Generate a unique temp file path
-        const tempFilePath = path.join(os.tmpdir(), kaifixFilename);
-        const tempFileUri = vscode.Uri.file(tempFilePath);
+        const tempFileUri = this.getTempFileUri(kaifixFilename);
 
         // Convert the string content to a Uint8Array
         const encoder = new TextEncoder(); // TextEncoder is globally available
@@ -356,102 +769,6 @@ export class KaiFixDetails {
 
         return tempFileUri;
     }
-    private extractUpdatedFile(jsonResponse: string): string {
-        try {
-            const responseObj = JSON.parse(jsonResponse);
-    
-            if ('updated_file' in responseObj) {
-                const updatedFileContent = responseObj.updated_file;
-                return updatedFileContent || 'No content available in updated_file.';
-            } else {
-                vscode.window.showInformationMessage('The "updated_file" property does not exist in the response object.');
-                return 'The "updated_file" property does not exist in the response object.';
-            }
-        } catch (error) {
-            vscode.window.showInformationMessage('Failed to parse jsonResponse:', error);
-            return 'An error occurred while parsing the JSON response.';
-        }
-    }
-    private extractTotalReasoning(jsonResponse: string): string {
-        try {
-            const responseObj = JSON.parse(jsonResponse);
-    
-            if ('total_reasoning' in responseObj) {
-                const total_reasoningContent = responseObj.total_reasoning;
-                return total_reasoningContent || 'No content available in total_reasoning.';
-            } else {
-                vscode.window.showInformationMessage('The "total_reasoning" property does not exist in the response object.');
-                return 'The "total_reasoning" property does not exist in the response object.';
-            }
-        } catch (error) {
-            vscode.window.showInformationMessage('Failed to parse jsonResponse:', error);
-            return 'An error occurred while parsing the JSON response.';
-        }
-    }
-    private extractUsedPrompts(jsonResponse: string): string {
-        try {
-            const responseObj = JSON.parse(jsonResponse);
-    
-            if ('used_prompts' in responseObj) {
-                const used_promptsContent = responseObj.used_prompts;
-                return used_promptsContent || 'No content available in used_prompts.';
-            } else {
-                vscode.window.showInformationMessage('The "used_prompts" property does not exist in the response object.');
-                return 'The "used_prompts" property does not exist in the response object.';
-            }
-        } catch (error) {
-            vscode.window.showInformationMessage('Failed to parse jsonResponse:', error);
-            return 'An error occurred while parsing the JSON response.';
-        }
-    }
-    private extractModelID(jsonResponse: string): string {
-        try {
-            const responseObj = JSON.parse(jsonResponse);
-    
-            if ('model_id' in responseObj) {
-                const model_idContent = responseObj.model_id;
-                return model_idContent || 'No content available in model_id.';
-            } else {
-                vscode.window.showInformationMessage('The "model_id" property does not exist in the response object.');
-                return 'The "model_id" property does not exist in the response object.';
-            }
-        } catch (error) {
-            vscode.window.showInformationMessage('Failed to parse jsonResponse:', error);
-            return 'An error occurred while parsing the JSON response.';
-        }
-    }
-    private extractAdditionalInformation(jsonResponse: string): string {
-        try {
-            const responseObj = JSON.parse(jsonResponse);
-    
-            if ('additional_information' in responseObj) {
-                const additional_informationContent = responseObj.additional_information;
-                return additional_informationContent || 'No content available in additional_information.';
-            } else {
-                vscode.window.showInformationMessage('The "additional_information" property does not exist in the response object.');
-                return 'The "additional_information" property does not exist in the response object.';
-            }
-        } catch (error) {
-            vscode.window.showInformationMessage('Failed to parse jsonResponse:', error);
-            return 'An error occurred while parsing the JSON response.';
-        }
-    }
-    private extractLlmResults(jsonResponse: string): string {
-        try {
-            const responseObj = JSON.parse(jsonResponse);
-    
-            if ('llm_results' in responseObj) {
-                const llm_resultsContent = responseObj.llm_results;
-                return llm_resultsContent || 'No content available in llm_results.';
-            } else {
-                vscode.window.showInformationMessage('The "llm_results" property does not exist in the response object.');
-                return 'The "llm_results" property does not exist in the response object.';
-            }
-        } catch (error) {
-            vscode.window.showInformationMessage('Failed to parse jsonResponse:', error);
-            return 'An error occurred while parsing the JSON response.';
-        }
-    }
     private getFileName(filePath: string): string {
         const segments = filePath.split('/');
         const fileName = segments.pop();
@@ -475,59 +792,109 @@ export class KaiFixDetails {
             }
         })();
             // Register the provider with Visual Studio Code
-            this.context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(this.kaiScheme, provider));
+            this.context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(KAI_SCHEME, provider));
     }
 
-    private displayFormattedLLMOutput(data: string) {
-        // Parse the JSON to get the llm_output field
-        const parsedData = JSON.parse(data);
-        const llmOutput = parsedData.llm_output;  
-        // Replace the markdown-like headings and newlines with a formatted version for plain text
-        const formattedOutput = llmOutput
-            .replace(/## /g, '== ') // Convert markdown headings to plain text
-            .replace(/\\n/g, '\n') // Convert escaped newlines to actual newlines
-            .replace(/^.*```.*$/gm, ''); // Remove entire lines containing code block ticks
-        // Create a new output channel or use an existing one
-        return formattedOutput;
+    private async closeDiffEditor(session: KaiFixSession): Promise<void> {
+        if (!session.diffOpened) {
+            return;
+        }
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !session.matches(editor.document.uri)) {
+            // reveal the session's diff first so that the right editor gets closed
+            await session.openDiff();
+        }
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
     }
 
-    private getUpdatedFileSection(data: string): string {
-        // Match the "Updated File" section and capture everything after the title
-        const updatedFileRegex = /== Updated File\s*\n([\s\S]*?)(?=\n==|$)/;
-        const matches = data.match(updatedFileRegex);
-        
-        // Return the captured group, which is the content after "Updated File", if found
-        return matches && matches[1].trim() || '';
-    }
-        
-    private async closeEditor(editor: vscode.TextEditor): Promise<void> {
-            await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    private endSession(session: KaiFixSession): void {
+        this.sessions.delete(session.key);
+        session.dispose();
+        if (this.focusedSession === session) {
+            this.setFocusedSession(undefined);
+        }
+        this.onSessionsChanged.emit(undefined);
     }
 
-    private resetState(): void {
-        this.openedDiffEditor = undefined;
-        this.tempFileUri = undefined;
-        this.issueFilePath = undefined;
-        this.activeDiffUri = undefined;
-        this.outputChannel.dispose();
+    /**
+     * Returns the session passed by a view, or the focused one when run from the palette or the Kai Fix Actions view.
+     */
+    private getTargetSession(item?: any): KaiFixSession | undefined {
+        return item instanceof KaiFixSession ? item : this.getFocusedSession();
+    }
 
+    public async rejectChangesCommandHandler(item?: any): Promise<void> {
+        const session = this.getTargetSession(item);
+        const targets = session ? await this.confirmGroup(session, 'Reject') : undefined;
+        for (const target of targets || []) {
+            await this.saveSpecificFile(target.tempFileUri);
+            await this.refreshHunks(target);
+            await this.recordFix(target, 'rejected', target.snapshot);
+            await vscode.workspace.fs.delete(target.tempFileUri);
+            await this.closeDiffEditor(target);
+            this.endSession(target);
+        }
     }
 
-    public async rejectChangesCommandHandler(): Promise<void> {
-        if (this.tempFileUri) {
-            await vscode.workspace.fs.delete(this.tempFileUri);
-            await this.closeEditor(this.openedDiffEditor);
-            this.resetState();
+    public async acceptChangesCommandHandler(item?: any): Promise<void> {
+        const session = this.getTargetSession(item);
+        if (!session) {
+            vscode.window.showErrorMessage("No changes to apply.");
+            return;
+        }
+        const targets = await this.confirmGroup(session, 'Accept');
+        for (const target of targets || []) {
+            if (await this.applyChangesAndDeleteTempFile(target, undefined, target === session)) {
+                this.endSession(target);
+            }
         }
     }
 
-    public async acceptChangesCommandHandler(): Promise<void> {
-        if (!this.tempFileUri || !this.issueFilePath) {
+    /**
+     * Applies the hunks marked as accepted in the Kai Fix Actions view, hunks without a decision are dropped.
+     */
+    public async applySelectedChangesCommandHandler(): Promise<void> {
+        const session = this.getFocusedSession();
+        if (!session) {
             vscode.window.showErrorMessage("No changes to apply.");
             return;
         }
-        await this.applyChangesAndDeleteTempFile(vscode.Uri.file(this.issueFilePath), this.tempFileUri);
-        this.resetState();
+        const accepted = session.getAcceptedHunks();
+        if (accepted.length === 0) {
+            vscode.window.showInformationMessage('No changes are marked as accepted.');
+            return;
+        }
+        if (await this.applyChangesAndDeleteTempFile(session, accepted)) {
+            this.endSession(session);
+        }
+    }
+
+    public async acceptAllChangesCommandHandler(): Promise<void> {
+        const sessions = this.getSessions();
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage('No Kai fixes are awaiting review.');
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(`Apply the Kai fixes to all ${sessions.length} file(s) awaiting review?`, { modal: true }, 'Apply All');
+        if (choice !== 'Apply All') {
+            return;
+        }
+        let applied = 0;
+        for (const session of sessions) {
+            if (await this.applyChangesAndDeleteTempFile(session, undefined, false)) {
+                this.endSession(session);
+                applied++;
+            }
+        }
+        vscode.window.showInformationMessage(`Applied Kai fixes to ${applied} of ${sessions.length} file(s).`);
+    }
+
+    private setHunkDecision(index: number, decision: HunkDecision): void {
+        const session = this.getFocusedSession();
+        if (session) {
+            session.setDecision(index, decision);
+            this.myWebViewProvider.updateWebview(session);
+        }
     }
 
     public async handleMessage(message: any): Promise<void>  {
@@ -538,25 +905,18 @@ export class KaiFixDetails {
             case 'rejectChanges':
                 await this.rejectChangesCommandHandler();
                 break;
+            case 'acceptHunk':
+                this.setHunkDecision(message.index, 'accepted');
+                break;
+            case 'rejectHunk':
+                this.setHunkDecision(message.index, 'rejected');
+                break;
+            case 'applySelectedChanges':
+                await this.applySelectedChangesCommandHandler();
+                break;
         }
     }
 
-    private formatHintsToIncidents(hints: IHint[]) {
-        return hints.map(hint => ({
-        violation_name: hint.ruleId,
-        ruleset_name: hint.rulesetName,
-        incident_variables: {
-            file: hint.variables['file'] || '',
-            kind: hint.variables['kind'] || '',
-            name: hint.variables['name'] || '',
-            package: hint.variables['package'] || '',
-        },
-        line_number: hint.lineNumber,
-        analysis_message: hint.hint,
-        }));
-    }
-    
-
 }
 
 export class MyWebViewProvider implements vscode.WebviewViewProvider {
@@ -585,16 +945,16 @@ export class MyWebViewProvider implements vscode.WebviewViewProvider {
         }, undefined, this.kaiFixDetails.context.subscriptions);
     }
 
-    public updateWebview(diffFocused: boolean): void {
+    public updateWebview(session: KaiFixSession | undefined): void {
         if (this._view) {
-            this._view.webview.html = diffFocused
-                ? this.getHtmlForWebview() // Content when diff is focused
+            this._view.webview.html = session
+                ? this.getHtmlForWebview(session) // Content when diff is focused
                 : this.getDefaultHtmlForWebview(); // Default content
         }
     }
 
 
-    private getHtmlForWebview(): string {
+    private getHtmlForWebview(session: KaiFixSession): string {
         return  `
         <!DOCTYPE html>
 <html lang="en">
@@ -655,16 +1015,75 @@ export class MyWebViewProvider implements vscode.WebviewViewProvider {
             box-shadow: 0 1px 3px rgba(0,0,0,0.2);
             transform: translateY(2px);
         }
+        #applySelectedButton {
+            background-color: #2196F3; /* Blue */
+            color: white;
+        }
+        #applySelectedButton:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+        .hunks {
+            width: 100%;
+            margin-top: 16px;
+        }
+        .hunk {
+            border: 1px solid rgba(128,128,128,0.35);
+            border-radius: 3px;
+            margin-bottom: 8px;
+            font-size: 12px;
+        }
+        .hunk.accepted {
+            border-color: #4CAF50;
+        }
+        .hunk.rejected {
+            opacity: 0.6;
+        }
+        .hunk-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            padding: 4px 6px;
+        }
+        .hunk-header button {
+            font-size: 11px;
+            margin-left: 4px;
+            cursor: pointer;
+        }
+        .hunk pre {
+            margin: 0;
+            padding: 4px 6px;
+            overflow-x: auto;
+            font-size: 11px;
+        }
+        .removed {
+            color: #f44336;
+        }
+        .added {
+            color: #4CAF50;
+        }
     </style>
 </head>
 <body>
     <div class="explanation">
-        Clicking 'Accept' will save the proposed changes and replace the original file with these changes.
+        Clicking 'Accept' will save the proposed changes and replace <b>${escapeHtml(session.fileName)}</b> with these changes.
     </div>
     <button id="acceptButton" class="button">Accept Changes</button>
     <button id="rejectButton" class="button">Reject Changes</button>
+    ${this.getHunksHtml(session)}
     <script nonce="${this.nonce}">
     const vscode = acquireVsCodeApi();
+    document.querySelectorAll('[data-hunk-command]').forEach(button => {
+        button.addEventListener('click', () => {
+            vscode.postMessage({ command: button.dataset.hunkCommand, index: Number(button.dataset.index) });
+        });
+    });
+    const applySelectedButton = document.getElementById('applySelectedButton');
+    if (applySelectedButton) {
+        applySelectedButton.addEventListener('click', () => {
+            vscode.postMessage({ command: 'applySelectedChanges' });
+        });
+    }
     document.getElementById('acceptButton').addEventListener('click', () => {
         vscode.postMessage({ command: 'acceptChanges' });
     });
@@ -677,6 +1096,39 @@ export class MyWebViewProvider implements vscode.WebviewViewProvider {
         `;
     }
 
+    private getHunksHtml(session: KaiFixSession): string {
+        const hunks = session.getHunks();
+        if (hunks.length < 2) {
+            return '';
+        }
+        const accepted = session.getAcceptedHunks().length;
+        const items = hunks.map((hunk, index) => {
+            const decision = session.getDecision(hunk);
+            const lines = hunk.originalLines.map(line => `<span class="removed">- ${escapeHtml(line.replace(/\r?\n$/, ''))}</span>`)
+                .concat(hunk.proposedLines.map(line => `<span class="added">+ ${escapeHtml(line.replace(/\r?\n$/, ''))}</span>`));
+            const preview = lines.length > MAX_HUNK_PREVIEW_LINES
+                ? lines.slice(0, MAX_HUNK_PREVIEW_LINES).concat(`... ${lines.length - MAX_HUNK_PREVIEW_LINES} more line(s)`)
+                : lines;
+            return `
+        <div class="hunk ${decision || ''}">
+            <div class="hunk-header">
+                <span>Line ${hunk.originalStart + 1}${decision ? ` (${decision})` : ''}</span>
+                <span>
+                    <button data-hunk-command="acceptHunk" data-index="${index}">Accept</button>
+                    <button data-hunk-command="rejectHunk" data-index="${index}">Reject</button>
+                </span>
+            </div>
+            <pre>${preview.join('\n')}</pre>
+        </div>`;
+        }).join('');
+        return `
+    <div class="hunks">
+        <div class="explanation">Or review the ${hunks.length} changes one by one and apply only the accepted ones.</div>
+        ${items}
+    </div>
+    <button id="applySelectedButton" class="button" ${accepted === 0 ? 'disabled' : ''}>Apply ${accepted} Accepted Change(s)</button>`;
+    }
+
     private getDefaultHtmlForWebview(): string {
         // Define the HTML content to display when no diff editor is focused
         return `
@@ -708,13 +1160,3 @@ export class MyWebViewProvider implements vscode.WebviewViewProvider {
     `;
     }
 }
-
-
-function getNonce() {
-    let text = '';
-    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    for (let i = 0; i < 16; i++) {
-        text += possible.charAt(Math.floor(Math.random() * possible.length));
-    }
-    return text;
-}
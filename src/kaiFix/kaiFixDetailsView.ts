@@ -0,0 +1,220 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import { IHint } from '../server/analyzerModel';
+import { FileSolutionResponse, KaiText } from './kaiClient';
+import { KaiFixDetails } from './kaiFix';
+import { KaiFixExplanation, KaiFixSession } from './kaiFixSession';
+import { findSection, parseLLMOutput, UPDATED_FILE_SECTION } from './kaiOutput';
+import { escapeHtml, getNonce } from './kaiWebview';
+
+/**
+ * The "Kai Fix Details" view, rendering the reasoning, prompts, model and additional information
+ * Kai returned for the focused fix.
+ */
+export class KaiFixDetailsView implements vscode.WebviewViewProvider {
+
+    public static readonly viewType = 'kaiFixDetailsView';
+    private view?: vscode.WebviewView;
+    private session: KaiFixSession | undefined;
+    private converter: any;
+
+    constructor(private context: vscode.ExtensionContext, private kaiFixDetails: KaiFixDetails) {
+        const showdown = require('showdown');
+        this.converter = new showdown.Converter({ tables: true, simplifiedAutoLink: true });
+        context.subscriptions.push(vscode.window.registerWebviewViewProvider(KaiFixDetailsView.viewType, this));
+        this.kaiFixDetails.onFocusedSessionChanged.on(session => this.update(session));
+        this.kaiFixDetails.onSessionsChanged.on(() => this.render());
+    }
+
+    public resolveWebviewView(webviewView: vscode.WebviewView): void {
+        this.view = webviewView;
+        this.view.webview.options = { enableScripts: true };
+        this.view.webview.onDidReceiveMessage(message => this.handleMessage(message), undefined, this.context.subscriptions);
+        this.view.onDidDispose(() => this.view = undefined);
+        this.render();
+    }
+
+    private update(session: KaiFixSession | undefined): void {
+        // keep showing the last fix while focus is elsewhere, until it is accepted or rejected
+        if (session || (this.session && !this.kaiFixDetails.getSessions().includes(this.session))) {
+            this.session = session;
+            this.render();
+        }
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        const session = this.session;
+        if (!session) {
+            return;
+        }
+        switch (message.command) {
+            case 'openDiff':
+                await this.kaiFixDetails.openSessionDiff(session);
+                break;
+            case 'openRelatedDiff': {
+                const related = this.kaiFixDetails.getGroup(session).filter(other => other !== session)[message.index];
+                if (related) {
+                    await this.kaiFixDetails.openSessionDiff(related);
+                }
+                break;
+            }
+            case 'openIncident': {
+                const incident = session.explanation ? session.explanation.incidents[message.index] : undefined;
+                if (incident) {
+                    const line = Math.max(incident.lineNumber - 1, 0);
+                    await vscode.window.showTextDocument(session.originalUri, {
+                        selection: new vscode.Range(line, 0, line, 0),
+                        preview: true
+                    });
+                }
+                break;
+            }
+        }
+    }
+
+    private render(): void {
+        if (this.view) {
+            this.view.webview.html = this.getHtml();
+        }
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        const session = this.session;
+        const explanation = session ? session.explanation : undefined;
+        let body: string;
+        if (!session || !explanation) {
+            body = '<p class="empty">Focus the diff of a Kai fix to see how Kai arrived at it.</p>';
+        }
+        else {
+            body = `
+            <h3>${escapeHtml(session.fileName)}</h3>
+            <p class="meta">Model: ${escapeHtml(explanation.modelId || 'unknown')}</p>
+            <button id="openDiff">Open Diff</button>
+            ${this.section('Incidents', this.renderIncidents(explanation), true)}
+            ${this.renderRelated(session)}
+            ${this.section('Reasoning', this.markdown(explanation.reasoning), true)}
+            ${this.section('Additional Information', explanation.additionalInformation.map(text => this.markdown(text)).join('<hr>'))}
+            ${this.section('Prompts Used', explanation.prompts.map((prompt, index) =>
+                `<details><summary>Prompt ${index + 1}</summary><pre>${escapeHtml(prompt)}</pre></details>`).join(''))}
+            ${this.section('LLM Results', explanation.llmResults.map(text => this.markdown(text)).join('<hr>'))}`;
+        }
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src https: data:; script-src 'nonce-${nonce}';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    padding: 0 10px;
+                }
+                details.section {
+                    margin: 8px 0;
+                    border-bottom: 1px solid rgba(128,128,128,0.35);
+                    padding-bottom: 6px;
+                }
+                details.section > summary {
+                    font-weight: bold;
+                    cursor: pointer;
+                }
+                pre {
+                    white-space: pre-wrap;
+                    word-break: break-word;
+                    font-size: 11px;
+                }
+                .meta, .empty {
+                    opacity: 0.8;
+                }
+                a {
+                    cursor: pointer;
+                }
+            </style>
+        </head>
+        <body>
+            ${body}
+            <script nonce="${nonce}">
+            const vscode = acquireVsCodeApi();
+            const openDiff = document.getElementById('openDiff');
+            if (openDiff) {
+                openDiff.addEventListener('click', () => vscode.postMessage({ command: 'openDiff' }));
+            }
+            document.querySelectorAll('[data-related]').forEach(link => {
+                link.addEventListener('click', () => vscode.postMessage({ command: 'openRelatedDiff', index: Number(link.dataset.related) }));
+            });
+            document.querySelectorAll('[data-incident]').forEach(link => {
+                link.addEventListener('click', () => vscode.postMessage({ command: 'openIncident', index: Number(link.dataset.incident) }));
+            });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private section(title: string, content: string, open?: boolean): string {
+        return `<details class="section" ${open ? 'open' : ''}><summary>${title}</summary>${content || '<p class="empty">—</p>'}</details>`;
+    }
+
+    private renderIncidents(explanation: KaiFixExplanation): string {
+        const items = explanation.incidents.map((incident, index) =>
+            `<li><a data-incident="${index}">Line ${incident.lineNumber}</a> ${escapeHtml(incident.ruleId)}: ${escapeHtml(incident.message || '')}</li>`);
+        return items.length > 0 ? `<ul>${items.join('')}</ul>` : '';
+    }
+
+    private renderRelated(session: KaiFixSession): string {
+        const others = this.kaiFixDetails.getGroup(session).filter(other => other !== session);
+        if (others.length === 0) {
+            return '';
+        }
+        const items = others.map((other, index) => `<li><a data-related="${index}">${escapeHtml(other.fileName)}</a></li>`);
+        return this.section('Other Files of This Fix', `<ul>${items.join('')}</ul>`, true);
+    }
+
+    private markdown(text: string): string {
+        return text ? this.converter.makeHtml(text) : '';
+    }
+}
+
+/**
+ * Creates the explanation of a fix for a single incident from the sections of its LLM output,
+ * leaving out the updated file that is shown in the diff.
+ */
+export function explainIncidentSolution(llmOutput: string, hints: IHint[]): KaiFixExplanation {
+    const parsed = parseLLMOutput(llmOutput);
+    const reasoning = findSection(parsed, 'Reasoning');
+    const others = parsed.sections.filter(section => section !== reasoning && section.title.toLowerCase() !== UPDATED_FILE_SECTION.toLowerCase());
+    return {
+        reasoning: reasoning ? reasoning.text : parsed.preamble,
+        prompts: [],
+        additionalInformation: others.map(section => `#### ${section.title}\n\n${section.text}`),
+        llmResults: [],
+        incidents: toIncidents(hints),
+    };
+}
+
+export function explainFileSolution(response: FileSolutionResponse, hints: IHint[]): KaiFixExplanation {
+    return {
+        reasoning: toList(response.total_reasoning).join('\n\n'),
+        prompts: toList(response.used_prompts),
+        modelId: response.model_id,
+        additionalInformation: toList(response.additional_information),
+        llmResults: toList(response.llm_results),
+        incidents: toIncidents(hints),
+    };
+}
+
+function toIncidents(hints: IHint[]): KaiFixExplanation['incidents'] {
+    return hints.map(hint => ({ ruleId: hint.ruleId, lineNumber: hint.lineNumber, message: hint.hint || hint.title }));
+}
+
+function toList(text: KaiText | null | undefined): string[] {
+    if (text === undefined || text === null) {
+        return [];
+    }
+    return (Array.isArray(text) ? text : [text]).filter(entry => !!entry);
+}
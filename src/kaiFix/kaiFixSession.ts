@@ -0,0 +1,171 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { DiffHunk, getHunkKey, getHunkRange, getHunkText } from './kaiDiff';
+import { KaiEndpoint } from './kaiEndpoint';
+
+export const KAI_SCHEME = 'kaifixtext';
+
+export type HunkDecision = 'accepted' | 'rejected';
+
+/**
+ * The incidents a fix was requested for.
+ */
+export interface KaiFixOrigin {
+    incidentIds: string[];
+    ruleIds: string[];
+    modelId?: string;
+    /**
+     * Key of the session of the incident's file when Kai changed several files in one fix.
+     */
+    groupId?: string;
+}
+
+/**
+ * What Kai reported alongside a fix, shown in the Kai Fix Details view.
+ */
+export interface KaiFixExplanation {
+    /**
+     * Markdown.
+     */
+    reasoning: string;
+    prompts: string[];
+    modelId?: string;
+    additionalInformation: string[];
+    llmResults: string[];
+    incidents: { ruleId: string, lineNumber: number, message: string }[];
+}
+
+/**
+ * A fix proposed by Kai for one file, shown in its own diff editor between the
+ * current file contents and the temp file holding the proposal.
+ */
+export class KaiFixSession {
+
+    public readonly originalUri: vscode.Uri;
+    public readonly virtualUri: vscode.Uri;
+    public readonly snapshotHash: string;
+    public diffOpened = false;
+    public explanation: KaiFixExplanation | undefined;
+    /**
+     * The file as Kai proposed it, before any edits in the diff editor.
+     */
+    public proposal: string | undefined;
+    /**
+     * The backend that proposed the fix, which is also told whether it was accepted.
+     */
+    public endpoint: KaiEndpoint | undefined;
+    private hunks: DiffHunk[] = [];
+    private decisions = new Map<string, HunkDecision>();
+
+    constructor(
+        public readonly tempFileUri: vscode.Uri,
+        public readonly filePath: string,
+        public readonly snapshot: string,
+        public readonly origin: KaiFixOrigin,
+        public readonly outputChannel?: vscode.OutputChannel) {
+        this.originalUri = vscode.Uri.file(filePath);
+        this.snapshotHash = hashContent(snapshot);
+        // the query keeps the left-hand document distinct when several fixes target the same file
+        this.virtualUri = vscode.Uri.file(filePath).with({ scheme: KAI_SCHEME, query: tempFileUri.fsPath });
+    }
+
+    get key(): string {
+        return KaiFixSession.keyOf(this.tempFileUri);
+    }
+
+    static keyOf(tempFileUri: vscode.Uri): string {
+        return tempFileUri.toString();
+    }
+
+    get fileName(): string {
+        return this.filePath.split('/').pop() || this.filePath;
+    }
+
+    /**
+     * Whether the given document is one of the two sides of this session's diff.
+     */
+    matches(uri: vscode.Uri): boolean {
+        const value = uri.toString();
+        return value === this.tempFileUri.toString() || value === this.virtualUri.toString();
+    }
+
+    /**
+     * Whether the file no longer has the contents that were sent to Kai.
+     */
+    hasDrifted(currentText: string): boolean {
+        return hashContent(currentText) !== this.snapshotHash;
+    }
+
+    getHunks(): DiffHunk[] {
+        return this.hunks;
+    }
+
+    /**
+     * Replaces the hunks after the proposal of the diff changed. Decisions are kept for
+     * hunks that are still present unchanged.
+     */
+    setHunks(hunks: DiffHunk[]): void {
+        const decisions = new Map<string, HunkDecision>();
+        hunks.forEach(hunk => {
+            const key = getHunkKey(hunk);
+            if (this.decisions.has(key)) {
+                decisions.set(key, this.decisions.get(key));
+            }
+        });
+        this.hunks = hunks;
+        this.decisions = decisions;
+    }
+
+    getDecision(hunk: DiffHunk): HunkDecision | undefined {
+        return this.decisions.get(getHunkKey(hunk));
+    }
+
+    setDecision(index: number, decision: HunkDecision): void {
+        const hunk = this.hunks[index];
+        if (hunk) {
+            this.decisions.set(getHunkKey(hunk), decision);
+        }
+    }
+
+    getAcceptedHunks(): DiffHunk[] {
+        return this.hunks.filter(hunk => this.getDecision(hunk) === 'accepted');
+    }
+
+    async openDiff(): Promise<void> {
+        await vscode.commands.executeCommand('vscode.diff', this.virtualUri, this.tempFileUri, `${this.fileName}: Current ⟷ KaiFix`, {
+            preview: true,
+        });
+        this.diffOpened = true;
+    }
+
+    dispose(): void {
+        if (this.outputChannel) {
+            this.outputChannel.dispose();
+        }
+    }
+}
+
+/**
+ * Creates an edit replacing the lines of each hunk, which must have been computed against the document's text.
+ */
+export function createHunkEdit(document: vscode.TextDocument, hunks: DiffHunk[]): vscode.WorkspaceEdit {
+    const text = document.getText();
+    const lineEnding = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const edit = new vscode.WorkspaceEdit();
+    hunks.forEach(hunk => {
+        const range = getHunkRange(text, hunk);
+        edit.replace(document.uri, new vscode.Range(document.positionAt(range.start), document.positionAt(range.end)), getHunkText(hunk, lineEnding));
+    });
+    return edit;
+}
+
+/**
+ * Hashes file contents ignoring line endings, which the editor may have normalized.
+ */
+export function hashContent(text: string): string {
+    return crypto.createHash('sha256').update(text.replace(/\r\n/g, '\n')).digest('hex');
+}
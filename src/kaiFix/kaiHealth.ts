@@ -0,0 +1,208 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import { RhamtConfiguration } from '../server/analyzerModel';
+import { ModelService } from '../model/modelService';
+import { getKaiRequestUrl, KaiEndpoint, resolveKaiEndpoint } from './kaiEndpoint';
+import { KaiClient, KaiHealth } from './kaiClient';
+
+const DEFAULT_HEALTH_ROUTE = 'health';
+const HEALTH_TIMEOUT = 10000;
+const KAI_UNREACHABLE_CONTEXT = 'kaiServerUnreachable';
+
+/**
+ * The last known health of the Kai backend of one configuration, or of the kai.backend.*
+ * settings when there is no configuration yet.
+ */
+interface EndpointHealth {
+    name: string;
+    endpointUrl: string;
+    health: KaiHealth;
+    checkedAt: Date;
+    lastError?: { detail: string, at: Date };
+}
+
+interface HealthAction extends vscode.QuickPickItem {
+    action?: 'retry' | 'settings';
+}
+
+/**
+ * Pings the health route of the Kai backend of every configuration and shows the result in the
+ * status bar. Configurations sharing a backend are checked with a single request. The backends are
+ * checked every kai.health.interval, when the configurations or the kai settings change and on
+ * demand. The Kai-Fix commands are disabled while every backend is unreachable.
+ */
+export class KaiHealthMonitor implements vscode.Disposable {
+
+    private statusBarItem: vscode.StatusBarItem;
+    private timer: NodeJS.Timer | undefined;
+    private checking: Promise<void> | undefined;
+    private results = new Map<string, EndpointHealth>();
+    private endpoints: string | undefined;
+
+    constructor(context: vscode.ExtensionContext, private modelService: ModelService) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
+        this.statusBarItem.command = 'rhamt.showKaiHealth';
+        context.subscriptions.push(this);
+        context.subscriptions.push(vscode.commands.registerCommand('rhamt.showKaiHealth', () => this.showDetails()));
+        context.subscriptions.push(vscode.commands.registerCommand('rhamt.checkKaiHealth', () => this.check()));
+        context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('kai')) {
+                this.start();
+            }
+        }));
+        // the configurations are loaded after activation, and may add or change backends later
+        context.subscriptions.push(modelService.onModelChanged.on(() => {
+            if (this.getEndpoints() !== this.endpoints) {
+                this.check();
+            }
+        }));
+        this.start();
+    }
+
+    private start(): void {
+        this.stop();
+        const interval = vscode.workspace.getConfiguration('kai.health').get<number>('interval');
+        if (interval > 0) {
+            this.timer = setInterval(() => this.check(), interval);
+        }
+        this.render();
+        this.statusBarItem.show();
+        this.check();
+    }
+
+    private stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Checks the backends now, or waits for the check in progress.
+     */
+    public check(): Promise<void> {
+        if (!this.checking) {
+            this.checking = this.doCheck()
+                .catch(e => console.log(`Error checking the Kai backends: ${e}`))
+                .then(() => this.checking = undefined);
+        }
+        return this.checking;
+    }
+
+    /**
+     * The backend options of the configurations, to tell whether a change of the model needs a check.
+     */
+    private getEndpoints(): string {
+        return JSON.stringify(this.modelService.model.configurations.map(config =>
+            [config.id, config.options['kai-url'], config.options['kai-headers'], config.options['kai-timeout']]));
+    }
+
+    private async doCheck(): Promise<void> {
+        this.endpoints = this.getEndpoints();
+        const route = vscode.workspace.getConfiguration('kai.health').get<string>('route') || DEFAULT_HEALTH_ROUTE;
+        const configurations: (RhamtConfiguration | undefined)[] = this.modelService.model.configurations.slice();
+        if (configurations.length === 0) {
+            configurations.push(undefined);
+        }
+        const checks = new Map<string, Promise<KaiHealth>>();
+        const results = new Map<string, EndpointHealth>();
+        await Promise.all(configurations.map(async config => {
+            const key = config ? config.id : '';
+            let endpointUrl = '';
+            let health: KaiHealth;
+            try {
+                const endpoint = resolveKaiEndpoint(config);
+                endpointUrl = getKaiRequestUrl(endpoint, route);
+                const request = JSON.stringify([endpointUrl, endpoint.headers]);
+                if (!checks.has(request)) {
+                    checks.set(request, this.checkEndpoint(endpoint, route));
+                }
+                health = await checks.get(request);
+            }
+            catch (e) {
+                health = { state: 'unreachable', detail: e.message };
+            }
+            const checkedAt = new Date();
+            const previous = this.results.get(key);
+            results.set(key, {
+                name: config ? config.name : 'kai.backend.url',
+                endpointUrl,
+                health,
+                checkedAt,
+                lastError: health.state !== 'connected' ? { detail: health.detail || health.state, at: checkedAt } : previous && previous.lastError
+            });
+        }));
+        this.results = results;
+        this.render();
+    }
+
+    private checkEndpoint(endpoint: KaiEndpoint, route: string): Promise<KaiHealth> {
+        return new KaiClient(endpoint).checkHealth(route, Math.min(endpoint.timeout, HEALTH_TIMEOUT));
+    }
+
+    private render(): void {
+        const results = Array.from(this.results.values());
+        if (results.length === 0) {
+            this.statusBarItem.text = '$(sync~spin) Kai';
+            this.statusBarItem.tooltip = 'Checking the Kai backend...';
+            this.statusBarItem.backgroundColor = undefined;
+            return;
+        }
+        const unreachable = results.filter(result => result.health.state === 'unreachable').length;
+        const connected = results.filter(result => result.health.state === 'connected').length;
+        vscode.commands.executeCommand('setContext', KAI_UNREACHABLE_CONTEXT, unreachable === results.length);
+        if (connected === results.length) {
+            this.statusBarItem.text = '$(check) Kai';
+            this.statusBarItem.backgroundColor = undefined;
+        }
+        else if (unreachable === results.length) {
+            this.statusBarItem.text = '$(error) Kai';
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+        }
+        else {
+            this.statusBarItem.text = `$(warning) Kai ${connected}/${results.length}`;
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        }
+        this.statusBarItem.tooltip = results.map(result =>
+            `${result.name}: Kai backend ${result.health.state}${result.health.detail ? ` (${result.health.detail})` : ''}\n${result.endpointUrl}`).join('\n\n');
+    }
+
+    private async showDetails(): Promise<void> {
+        const items: HealthAction[] = [];
+        this.results.forEach(result => {
+            items.push({
+                label: result.name,
+                description: `${result.health.state}${result.health.detail ? `: ${result.health.detail}` : ''}`,
+                detail: [
+                    result.endpointUrl || 'endpoint not resolved',
+                    `checked at ${result.checkedAt.toLocaleTimeString()}`,
+                    result.lastError ? `last error at ${result.lastError.at.toLocaleString()}: ${result.lastError.detail}` : ''
+                ].filter(part => part).join(' · ')
+            });
+        });
+        items.push({ label: '$(refresh) Retry', action: 'retry' });
+        items.push({ label: '$(gear) Open Settings', action: 'settings' });
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Kai backend status by configuration' });
+        if (!picked) {
+            return;
+        }
+        if (picked.action === 'retry') {
+            await this.check();
+            const failing = Array.from(this.results.values()).filter(result => result.health.state !== 'connected');
+            if (failing.length > 0) {
+                vscode.window.showWarningMessage(failing.map(result => `${result.name}: Kai backend ${result.health.state}`).join(', '));
+            }
+        }
+        else if (picked.action === 'settings') {
+            vscode.commands.executeCommand('workbench.action.openSettings', 'kai.');
+        }
+    }
+
+    public dispose(): void {
+        this.stop();
+        this.statusBarItem.dispose();
+    }
+}
@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as mkdirp from 'mkdirp';
+import { rhamtEvents } from '../events';
+import { ModelService } from '../model/modelService';
+import { DiffHunk } from './kaiDiff';
+
+export type KaiFixStatus = 'accepted' | 'rejected';
+
+export interface KaiFixHistoryEntry {
+    id: string;
+    status: KaiFixStatus;
+    file: string;
+    incidentIds: string[];
+    ruleIds: string[];
+    modelId?: string;
+    timestamp: string;
+    /**
+     * Hash of the file contents the fix was applied to, or that were sent to Kai for rejected fixes.
+     */
+    originalHash: string;
+    /**
+     * The change applied to the file, or the change Kai proposed for rejected fixes.
+     */
+    patch: DiffHunk[];
+    /**
+     * Hunks that undo an accepted fix when applied to the file as it was right after the fix.
+     */
+    reversePatch?: DiffHunk[];
+    revertedAt?: string;
+}
+
+/**
+ * Accepted and rejected Kai fixes of one workspace, persisted under kai-history/ next to model.json.
+ */
+export class KaiFixHistory {
+
+    onDidChange = new rhamtEvents.TypedEvent<void>();
+    private entries: KaiFixHistoryEntry[] = [];
+    private loaded = false;
+
+    constructor(public readonly location: string) {
+    }
+
+    static forWorkspace(modelService: ModelService, workspaceFolder: string): KaiFixHistory {
+        const id = crypto.createHash('sha1').update(workspaceFolder).digest('hex').substring(0, 16);
+        return new KaiFixHistory(path.join(modelService.outDir, 'kai-history', `${id}.json`));
+    }
+
+    public load(): Promise<KaiFixHistoryEntry[]> {
+        return new Promise<KaiFixHistoryEntry[]>((resolve, reject) => {
+            if (this.loaded) {
+                return resolve(this.entries);
+            }
+            fs.readFile(this.location, (e, data) => {
+                if (e && e.code !== 'ENOENT') {
+                    return reject(`Error reading Kai fix history: ${e}`);
+                }
+                try {
+                    this.entries = data ? JSON.parse(data.toString()).entries || [] : [];
+                }
+                catch (e) {
+                    return reject(`Error parsing Kai fix history: ${e}`);
+                }
+                this.loaded = true;
+                resolve(this.entries);
+            });
+        });
+    }
+
+    public getEntries(): KaiFixHistoryEntry[] {
+        return this.entries;
+    }
+
+    public getEntry(id: string): KaiFixHistoryEntry | undefined {
+        return this.entries.find(entry => entry.id === id);
+    }
+
+    public async add(entry: Pick<KaiFixHistoryEntry, Exclude<keyof KaiFixHistoryEntry, 'id' | 'timestamp'>>): Promise<KaiFixHistoryEntry> {
+        await this.load();
+        const added: KaiFixHistoryEntry = { id: ModelService.generateUniqueId(), timestamp: new Date().toISOString(), ...entry };
+        this.entries.unshift(added);
+        await this.save();
+        return added;
+    }
+
+    public async markReverted(entry: KaiFixHistoryEntry): Promise<void> {
+        entry.revertedAt = new Date().toISOString();
+        await this.save();
+    }
+
+    private save(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            mkdirp(path.dirname(this.location), (e: any) => {
+                if (e) {
+                    return reject(`Error creating Kai fix history location: ${e}`);
+                }
+                fs.writeFile(this.location, JSON.stringify({ entries: this.entries }, null, 4), e => {
+                    if (e) {
+                        return reject(`Error saving Kai fix history: ${e}`);
+                    }
+                    this.onDidChange.emit(undefined);
+                    resolve();
+                });
+            });
+        });
+    }
+}
@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { formatPatch, relocateHunks } from './kaiDiff';
+import { createHunkEdit } from './kaiFixSession';
+import { KaiFixHistory, KaiFixHistoryEntry } from './kaiHistory';
+
+const HISTORY_SCHEME = 'kaifixhistory';
+
+/**
+ * The "Kai Fix History" view, listing fixes newest first with commands to open their diff
+ * and to revert accepted fixes.
+ */
+export class KaiFixHistoryView implements vscode.TreeDataProvider<KaiFixHistoryEntry> {
+
+    private onDidChangeTreeDataEmitter = new vscode.EventEmitter<KaiFixHistoryEntry | undefined>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(context: vscode.ExtensionContext, private history: KaiFixHistory) {
+        this.history.onDidChange.on(() => this.onDidChangeTreeDataEmitter.fire(undefined));
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('kaiFixHistoryView', this));
+        context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, {
+            provideTextDocumentContent: uri => this.getPatchContent(uri)
+        }));
+        context.subscriptions.push(vscode.commands.registerCommand('rhamt.openKaiFixHistoryDiff', this.openDiff.bind(this)));
+        context.subscriptions.push(vscode.commands.registerCommand('rhamt.revertKaiFix', this.revert.bind(this)));
+    }
+
+    public async getChildren(element?: KaiFixHistoryEntry): Promise<KaiFixHistoryEntry[]> {
+        if (element) {
+            return [];
+        }
+        try {
+            return await this.history.load();
+        }
+        catch (e) {
+            console.log(e);
+            vscode.window.showErrorMessage(`${e}`);
+            return [];
+        }
+    }
+
+    public getTreeItem(entry: KaiFixHistoryEntry): vscode.TreeItem {
+        const item = new vscode.TreeItem(path.basename(entry.file), vscode.TreeItemCollapsibleState.None);
+        const status = entry.revertedAt ? 'reverted' : entry.status;
+        item.description = `${status} · ${entry.ruleIds.join(', ')} · ${new Date(entry.timestamp).toLocaleString()}`;
+        item.tooltip = [
+            entry.file,
+            `Status: ${status}`,
+            `Rules: ${entry.ruleIds.join(', ')}`,
+            `Incidents: ${entry.incidentIds.join(', ')}`,
+            `Model: ${entry.modelId || 'unknown'}`,
+            `Date: ${entry.timestamp}`,
+            `Original content hash: ${entry.originalHash}`,
+        ].join('\n');
+        item.iconPath = new vscode.ThemeIcon(status === 'accepted' ? 'check' : status === 'rejected' ? 'close' : 'discard');
+        item.contextValue = `kaiFixHistoryEntry-${status}`;
+        item.command = {
+            command: 'rhamt.openKaiFixHistoryDiff',
+            title: 'Open Diff',
+            arguments: [entry]
+        };
+        return item;
+    }
+
+    private async openDiff(entry: KaiFixHistoryEntry): Promise<void> {
+        const uri = vscode.Uri.parse(`${HISTORY_SCHEME}:/${entry.id}/${path.basename(entry.file)}.diff`);
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(await vscode.languages.setTextDocumentLanguage(document, 'diff'), { preview: true });
+    }
+
+    private getPatchContent(uri: vscode.Uri): string {
+        const entry = this.history.getEntry(uri.path.split('/')[1]);
+        if (!entry) {
+            return 'This Kai fix is no longer part of the history.';
+        }
+        const label = entry.status === 'accepted' ? 'applied by Kai' : 'proposed by Kai (rejected)';
+        return formatPatch(entry.patch, entry.file, `${entry.file} ${label} ${entry.timestamp}`);
+    }
+
+    private async revert(entry: KaiFixHistoryEntry): Promise<void> {
+        if (entry.status !== 'accepted' || !entry.reversePatch || entry.revertedAt) {
+            vscode.window.showErrorMessage('Only accepted Kai fixes that have not been reverted can be reverted.');
+            return;
+        }
+        const fileName = path.basename(entry.file);
+        try {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(entry.file));
+            const hunks = relocateHunks(document.getText(), entry.reversePatch);
+            if (!hunks) {
+                vscode.window.showErrorMessage(`${fileName} has changed too much since the Kai fix was applied to revert it.`);
+                return;
+            }
+            const choice = await vscode.window.showWarningMessage(`Revert the Kai fix applied to ${fileName} on ${new Date(entry.timestamp).toLocaleString()}?`, { modal: true }, 'Revert');
+            if (choice !== 'Revert') {
+                return;
+            }
+            if (!await vscode.workspace.applyEdit(createHunkEdit(document, hunks))) {
+                throw new Error(`The edit to ${fileName} was rejected.`);
+            }
+            await document.save();
+            await this.history.markReverted(entry);
+            vscode.window.showInformationMessage(`Reverted the Kai fix applied to ${fileName}.`);
+        }
+        catch (e) {
+            console.log(`Error reverting Kai fix: ${e}`);
+            vscode.window.showErrorMessage(`Failed to revert the Kai fix. ${e}`);
+        }
+    }
+}
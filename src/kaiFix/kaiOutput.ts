@@ -0,0 +1,153 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export const UPDATED_FILE_SECTION = 'Updated File';
+
+export interface CodeBlock {
+    language: string;
+    content: string;
+}
+
+export interface OutputSection {
+    title: string;
+    /**
+     * The markdown of the section below its heading, code fences included.
+     */
+    text: string;
+    blocks: CodeBlock[];
+}
+
+export interface ParsedOutput {
+    /**
+     * Text before the first heading.
+     */
+    preamble: string;
+    sections: OutputSection[];
+    /**
+     * A code block opened but never closed, when the output was cut off.
+     */
+    unclosedBlock?: CodeBlock;
+}
+
+export class KaiOutputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KaiOutputError';
+    }
+}
+
+const HEADING = /^ {0,3}#{1,6}[ \t]+(.*?)[ \t#]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+
+/**
+ * Splits the LLM output of Kai into its markdown sections. Headings and fences inside a
+ * code block are part of the code, a block is only closed by a fence of the same kind
+ * that is at least as long as the one that opened it.
+ */
+export function parseLLMOutput(output: string): ParsedOutput {
+    const parsed: ParsedOutput = { preamble: '', sections: [] };
+    let section: OutputSection | undefined;
+    let block: { fence: string, indent: number, language: string, lines: string[] } | undefined;
+    const append = (line: string) => {
+        if (section) {
+            section.text += line + '\n';
+        }
+        else {
+            parsed.preamble += line + '\n';
+        }
+    };
+    for (const line of splitOutputLines(output)) {
+        if (block) {
+            const closing = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+            if (closing && closing[1][0] === block.fence[0] && closing[1].length >= block.fence.length) {
+                const content = block.lines.join('\n');
+                if (section) {
+                    section.blocks.push({ language: block.language, content: content ? content + '\n' : '' });
+                }
+                block = undefined;
+            }
+            else {
+                block.lines.push(stripIndent(line, block.indent));
+            }
+            append(line);
+            continue;
+        }
+        const fence = line.match(FENCE);
+        if (fence) {
+            block = { fence: fence[1], indent: line.indexOf(fence[1][0]), language: fence[2], lines: [] };
+            append(line);
+            continue;
+        }
+        const heading = line.match(HEADING);
+        if (heading) {
+            section = { title: heading[1].trim(), text: '', blocks: [] };
+            parsed.sections.push(section);
+            continue;
+        }
+        append(line);
+    }
+    if (block) {
+        parsed.unclosedBlock = { language: block.language, content: block.lines.join('\n') };
+    }
+    parsed.preamble = parsed.preamble.trim();
+    parsed.sections.forEach(section => section.text = section.text.trim());
+    return parsed;
+}
+
+export function findSection(parsed: ParsedOutput, title: string): OutputSection | undefined {
+    return parsed.sections.find(section => section.title.toLowerCase() === title.toLowerCase());
+}
+
+/**
+ * Returns the contents of the file proposed in the "Updated File" section. Throws a
+ * KaiOutputError naming what is wrong instead of returning an empty or partial file.
+ */
+export function getUpdatedFile(output: string): string {
+    const parsed = parseLLMOutput(output);
+    const section = findSection(parsed, UPDATED_FILE_SECTION);
+    if (!section) {
+        if (parsed.sections.length === 0) {
+            throw new KaiOutputError('Kai response has no sections, expected an "Updated File" section.');
+        }
+        throw new KaiOutputError(`Kai response has no "Updated File" section, found: ${parsed.sections.map(section => section.title).join(', ')}.`);
+    }
+    if (section.blocks.length === 0) {
+        if (parsed.unclosedBlock && parsed.sections[parsed.sections.length - 1] === section) {
+            throw new KaiOutputError('The code block of the "Updated File" section is not closed, the Kai response was cut off.');
+        }
+        throw new KaiOutputError('The "Updated File" section of the Kai response contains no code block.');
+    }
+    // the file is the first block, later ones are snippets quoted in the explanation
+    const content = section.blocks[0].content;
+    if (!content.trim()) {
+        throw new KaiOutputError('The "Updated File" section of the Kai response is empty.');
+    }
+    return content;
+}
+
+/**
+ * Whether the output received so far contains a complete "Updated File" code block.
+ */
+export function hasUpdatedFile(output: string): boolean {
+    const section = findSection(parseLLMOutput(output), UPDATED_FILE_SECTION);
+    return !!section && section.blocks.length > 0;
+}
+
+/**
+ * Older Kai versions send the output with its newlines escaped. Those are only unescaped
+ * when the output has no real line breaks, so `\n` inside string literals of the code survives.
+ */
+function splitOutputLines(output: string): string[] {
+    const text = output.indexOf('\n') < 0 && output.indexOf('\\n') >= 0 ? output.replace(/\\n/g, '\n') : output;
+    return text.replace(/\r\n/g, '\n').split('\n');
+}
+
+function stripIndent(line: string, indent: number): string {
+    let i = 0;
+    while (i < indent && line[i] === ' ') {
+        i++;
+    }
+    return line.substring(i);
+}
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { AbortSignal } from 'abort-controller';
+
+export interface QueueResult<T> {
+    item: T;
+    error?: any;
+}
+
+/**
+ * Runs the worker for every item with at most `concurrency` workers in flight. A failing
+ * item does not stop the queue, its error is reported in the result. Items not started
+ * when the signal fires are skipped and missing from the results.
+ */
+export async function runQueue<T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T) => Promise<void>,
+    onDone?: (result: QueueResult<T>) => void,
+    signal?: AbortSignal): Promise<QueueResult<T>[]> {
+    const results: QueueResult<T>[] = [];
+    let next = 0;
+    const runWorker = async () => {
+        while (next < items.length && !(signal && signal.aborted)) {
+            const item = items[next++];
+            const result: QueueResult<T> = { item };
+            try {
+                await worker(item);
+            }
+            catch (e) {
+                result.error = e;
+            }
+            results.push(result);
+            if (onDone) {
+                onDone(result);
+            }
+        }
+    };
+    const workers = [];
+    for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+        workers.push(runWorker());
+    }
+    await Promise.all(workers);
+    return results;
+}
@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as mkdirp from 'mkdirp';
+
+/**
+ * off: requests go to the Kai backend. record: responses of the backend are also saved as
+ * fixtures. replay: responses are served from the fixtures, the backend is never contacted.
+ */
+export type KaiReplayMode = 'off' | 'record' | 'replay';
+
+export interface KaiFixture {
+    route: string;
+    key: FixtureKey;
+    recordedAt: string;
+    response: any;
+}
+
+interface FixtureKey {
+    file_name: string;
+    incidents: { violation_name: string, ruleset_name: string, line_number: number }[];
+}
+
+export class KaiFixtureMissingError extends Error {
+    constructor(public readonly location: string) {
+        super(`No recorded Kai response at ${location}. Record one with kai.replay.mode set to "record".`);
+        this.name = 'KaiFixtureMissingError';
+    }
+}
+
+/**
+ * Recorded Kai responses, one JSON file per route and request.
+ */
+export class KaiFixtureStore {
+
+    constructor(public readonly directory: string) {
+    }
+
+    /**
+     * Requests are identified by the file and the incidents sent, not by the file contents
+     * or application name, so a recording still replays after the file was edited or on
+     * another machine.
+     */
+    public getLocation(route: string, request: any): string {
+        const key = JSON.stringify(getFixtureKey(request));
+        const hash = crypto.createHash('sha1').update(`${route}\n${key}`).digest('hex').substring(0, 12);
+        const name = String(request.file_name || 'request').replace(/[^A-Za-z0-9._-]+/g, '_');
+        return path.join(this.directory, route, `${name}-${hash}.json`);
+    }
+
+    public read(route: string, request: any): Promise<any> {
+        const location = this.getLocation(route, request);
+        return new Promise<any>((resolve, reject) => {
+            fs.readFile(location, 'utf8', (e, data) => {
+                if (e) {
+                    return reject(e.code === 'ENOENT' ? new KaiFixtureMissingError(location) : e);
+                }
+                try {
+                    resolve((JSON.parse(data) as KaiFixture).response);
+                }
+                catch (e) {
+                    reject(new Error(`Invalid Kai fixture ${location}: ${e.message}`));
+                }
+            });
+        });
+    }
+
+    public write(route: string, request: any, response: any): Promise<string> {
+        const location = this.getLocation(route, request);
+        const fixture: KaiFixture = { route, key: getFixtureKey(request), recordedAt: new Date().toISOString(), response };
+        return new Promise<string>((resolve, reject) => {
+            mkdirp(path.dirname(location), (e: any) => {
+                if (e) {
+                    return reject(`Error creating Kai fixture location: ${e}`);
+                }
+                fs.writeFile(location, JSON.stringify(fixture, null, 4), e => {
+                    if (e) {
+                        return reject(`Error saving Kai fixture: ${e}`);
+                    }
+                    resolve(location);
+                });
+            });
+        });
+    }
+}
+
+function getFixtureKey(request: any): FixtureKey {
+    const incidents = request.incidents || [request];
+    return {
+        file_name: request.file_name,
+        incidents: incidents.map(incident => ({
+            violation_name: incident.violation_name,
+            ruleset_name: incident.ruleset_name,
+            line_number: incident.line_number,
+        })),
+    };
+}
@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import { KaiFixDetails } from './kaiFix';
+import { KaiFixSession } from './kaiFixSession';
+
+/**
+ * The "Kai Review Queue" view, listing every Kai fix that has not been accepted or rejected yet.
+ */
+export class KaiReviewQueueView implements vscode.TreeDataProvider<KaiFixSession> {
+
+    private onDidChangeTreeDataEmitter = new vscode.EventEmitter<KaiFixSession | undefined>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(context: vscode.ExtensionContext, private kaiFixDetails: KaiFixDetails) {
+        this.kaiFixDetails.onSessionsChanged.on(() => this.onDidChangeTreeDataEmitter.fire(undefined));
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('kaiReviewQueueView', this));
+        context.subscriptions.push(vscode.commands.registerCommand('rhamt.openKaiFixDiff', (session: KaiFixSession) => {
+            return this.kaiFixDetails.openSessionDiff(session);
+        }));
+    }
+
+    /**
+     * The related files of a multi-file fix are listed under the file of its incident, or at
+     * the top level once that one has been accepted or rejected.
+     */
+    public getChildren(element?: KaiFixSession): KaiFixSession[] {
+        const sessions = this.kaiFixDetails.getSessions();
+        if (element) {
+            return element.origin.groupId === element.key
+                ? this.kaiFixDetails.getGroup(element).filter(session => session !== element)
+                : [];
+        }
+        const keys = sessions.map(session => session.key);
+        return sessions
+            .filter(session => !session.origin.groupId || session.origin.groupId === session.key || !keys.includes(session.origin.groupId))
+            .sort((s1, s2) => s1.filePath.localeCompare(s2.filePath));
+    }
+
+    public getTreeItem(session: KaiFixSession): vscode.TreeItem {
+        const hasRelated = session.origin.groupId === session.key && this.kaiFixDetails.getGroup(session).length > 1;
+        const item = new vscode.TreeItem(session.fileName, hasRelated ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None);
+        const folder = vscode.workspace.getWorkspaceFolder(session.originalUri);
+        item.description = `${session.getHunks().length} change(s) · ${folder ? vscode.workspace.asRelativePath(session.originalUri) : session.filePath}`;
+        item.tooltip = `${session.filePath}\nRules: ${session.origin.ruleIds.join(', ')}`;
+        item.resourceUri = session.originalUri;
+        item.contextValue = 'kaiFixSession';
+        item.command = {
+            command: 'rhamt.openKaiFixDiff',
+            title: 'Open Diff',
+            arguments: [session]
+        };
+        return item;
+    }
+}
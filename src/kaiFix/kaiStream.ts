@@ -0,0 +1,126 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { StringDecoder } from 'string_decoder';
+
+export type KaiStreamFormat = 'sse' | 'ndjson';
+
+const SSE_DONE = '[DONE]';
+
+/**
+ * Returns the streaming format announced by a response content type, or undefined
+ * when the response is a regular buffered body.
+ */
+export function getStreamFormat(contentType: string | null | undefined): KaiStreamFormat | undefined {
+    if (!contentType) {
+        return undefined;
+    }
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    if (mediaType === 'text/event-stream') {
+        return 'sse';
+    }
+    if (mediaType === 'application/x-ndjson' || mediaType === 'application/ndjson' || mediaType === 'application/jsonl') {
+        return 'ndjson';
+    }
+    return undefined;
+}
+
+/**
+ * Splits a chunked response body into event payloads. Server-sent events yield the
+ * (possibly multi-line) data of each event, newline-delimited JSON yields each non-empty line.
+ */
+export class KaiStreamParser {
+
+    private buffer = '';
+    private data: string[] = [];
+
+    constructor(private format: KaiStreamFormat) {
+    }
+
+    push(text: string): string[] {
+        this.buffer += text;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop();
+        const payloads = [];
+        lines.forEach(line => this.processLine(line, payloads));
+        return payloads;
+    }
+
+    end(): string[] {
+        const payloads = [];
+        if (this.buffer) {
+            this.processLine(this.buffer, payloads);
+            this.buffer = '';
+        }
+        this.dispatch(payloads);
+        return payloads;
+    }
+
+    private processLine(line: string, payloads: string[]): void {
+        if (this.format === 'ndjson') {
+            if (line.trim()) {
+                payloads.push(line);
+            }
+            return;
+        }
+        if (line === '') {
+            this.dispatch(payloads);
+        }
+        else if (line.startsWith('data:')) {
+            const value = line.substring(5);
+            this.data.push(value.startsWith(' ') ? value.substring(1) : value);
+        }
+        // comments, event, id and retry fields carry nothing we need
+    }
+
+    private dispatch(payloads: string[]): void {
+        if (this.data.length > 0) {
+            const payload = this.data.join('\n');
+            this.data = [];
+            if (payload !== SSE_DONE) {
+                payloads.push(payload);
+            }
+        }
+    }
+}
+
+/**
+ * Reads a response body stream to the end, handing every event payload to the given handler.
+ */
+export function readStream(body: NodeJS.ReadableStream, format: KaiStreamFormat, handler: (payload: string) => void): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        const parser = new KaiStreamParser(format);
+        const decoder = new StringDecoder('utf8');
+        let failed = false;
+        const fail = (e: any) => {
+            if (!failed) {
+                failed = true;
+                body.removeAllListeners('data');
+                reject(e);
+            }
+        };
+        body.on('data', (chunk: Buffer | string) => {
+            try {
+                const text = typeof chunk === 'string' ? chunk : decoder.write(chunk);
+                parser.push(text).forEach(handler);
+            }
+            catch (e) {
+                fail(e);
+            }
+        });
+        body.on('end', () => {
+            try {
+                parser.push(decoder.end()).forEach(handler);
+                parser.end().forEach(handler);
+                if (!failed) {
+                    resolve();
+                }
+            }
+            catch (e) {
+                fail(e);
+            }
+        });
+        body.on('error', fail);
+    });
+}
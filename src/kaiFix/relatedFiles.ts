@@ -0,0 +1,83 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IHint } from '../server/analyzerModel';
+
+const DEFAULT_RELATED_FILES_LIMIT = 5;
+
+type RelatedFilesMode = 'off' | 'auto' | 'ask';
+
+interface RelatedFileItem extends vscode.QuickPickItem {
+    file?: string;
+}
+
+/**
+ * Returns the other files of the analysis with an incident of the same rule, those with the
+ * most incidents of the rule first.
+ */
+export function collectRelatedFiles(hint: IHint, issueByFile: Map<string, IHint[]>, limit: number): string[] {
+    const counts: [string, number][] = [];
+    issueByFile.forEach((hints, file) => {
+        if (file !== hint.file) {
+            const count = hints.filter(other => other.ruleId === hint.ruleId).length;
+            if (count > 0) {
+                counts.push([file, count]);
+            }
+        }
+    });
+    return counts.sort((a, b) => b[1] - a[1]).slice(0, Math.max(limit, 0)).map(entry => entry[0]);
+}
+
+/**
+ * Resolves the related files sent to Kai along with the file of an incident, according to the
+ * kai.relatedFiles.* settings. Returns undefined when the user cancels.
+ */
+export async function chooseRelatedFiles(hint: IHint): Promise<string[] | undefined> {
+    const settings = vscode.workspace.getConfiguration('kai.relatedFiles');
+    const mode = settings.get<RelatedFilesMode>('mode') || 'auto';
+    if (mode === 'off') {
+        return [];
+    }
+    const limit = settings.get<number>('limit');
+    const results = hint.configuration && hint.configuration._results;
+    const issueByFile = results ? results.model.issueByFile : new Map<string, IHint[]>();
+    const candidates = collectRelatedFiles(hint, issueByFile, limit === undefined || limit === null ? DEFAULT_RELATED_FILES_LIMIT : limit);
+    if (mode === 'auto') {
+        return candidates;
+    }
+    return pickRelatedFiles(hint, candidates);
+}
+
+async function pickRelatedFiles(hint: IHint, candidates: string[]): Promise<string[] | undefined> {
+    const chooseOther: RelatedFileItem = { label: '$(add) Choose other files...', alwaysShow: true };
+    const items: RelatedFileItem[] = candidates.map(file => ({
+        label: path.basename(file),
+        description: vscode.workspace.asRelativePath(file),
+        picked: true,
+        file
+    }));
+    items.push(chooseOther);
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `Select related files to send to Kai with ${path.basename(hint.file)}, or none`
+    });
+    if (!picked) {
+        return undefined;
+    }
+    const files = picked.filter(item => item.file).map(item => item.file);
+    if (picked.includes(chooseOther)) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            defaultUri: vscode.Uri.file(path.dirname(hint.file)),
+            openLabel: 'Send to Kai'
+        });
+        if (!uris) {
+            return undefined;
+        }
+        uris.map(uri => uri.fsPath).filter(file => file !== hint.file && !files.includes(file)).forEach(file => files.push(file));
+    }
+    return files;
+}
@@ -9,12 +9,17 @@ import * as fse from 'fs-extra';
 import * as mkdirp from 'mkdirp';
 import * as vscode from 'vscode';
 import { AnalyzerUtil } from '../server/analyzerUtil';
+import { rhamtEvents } from '../events';
 
 export class ModelService {
 
     public loaded: boolean = false;
     private rulesets: string[] = [];
     elementData: any;
+    /**
+     * Fires when the configurations were loaded, reloaded or saved.
+     */
+    public onModelChanged = new rhamtEvents.TypedEvent<RhamtModel>();
 
     constructor(
         public model: RhamtModel,
@@ -105,11 +110,15 @@ export class ModelService {
                 if (exists) {
                     fs.readFile(location, (e, data) => {
                         if (e) reject(e);
-                        else this.parse(data).then(() => resolve(this.model)).catch(reject);
+                        else this.parse(data).then(() => {
+                            this.onModelChanged.emit(this.model);
+                            resolve(this.model);
+                        }).catch(reject);
                     });
                 }
                 else {
                     this.loaded = true;
+                    this.onModelChanged.emit(this.model);
                     resolve(this.model);
                 }
             });
@@ -181,6 +190,7 @@ export class ModelService {
                         else {
                             try {
                                 await parse(data);
+                                this.onModelChanged.emit(this.model);
                                 resolve();
                             }
                             catch (e) {
@@ -310,10 +320,14 @@ export class ModelService {
             console.log(`Error while saving configuration data: ${e}`);
             return Promise.reject(`Error saving configuration data: ${e}`);
         }
+        this.onModelChanged.emit(this.model);
     }
 
     saveAnalysisResults(config: RhamtConfiguration): Promise<void> {
-        return Promise.resolve();
+        if (!config.results) {
+            return Promise.resolve();
+        }
+        return config.results.saveState().catch(e => Promise.reject(`Error saving analysis results: ${e}`));
     }
 
     computeQuickfixData(config: RhamtConfiguration): any {
@@ -0,0 +1,219 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { RhamtConfiguration } from './analyzerModel';
+
+/**
+ * The options that change what the analyzer reports. Others, such as the output location or
+ * the Kai backend, leave the results as they are.
+ */
+const ANALYSIS_OPTIONS = ['cli', 'input', 'mode', 'target', 'source', 'rules', 'enable-default-rulesets', 'analyze-known-libraries',
+    'execution-mode', 'container-image', 'container-tag'];
+
+/**
+ * Folders skipped when looking for changed sources, as builds and tools write to them.
+ */
+const IGNORED_FOLDERS = new Set(['.git', '.svn', '.idea', '.vscode', 'node_modules', 'target', 'build', 'out', 'dist', 'bin']);
+const MAX_SCANNED_FILES = 20000;
+const VERSION_TIMEOUT = 15000;
+
+const analyzerVersions = new Map<string, Promise<string | undefined>>();
+const rulesHashes = new Map<string, { modified: string, hash: string }>();
+
+export function hashOptions(options: { [option: string]: any }): string {
+    const relevant = ANALYSIS_OPTIONS.map(option => [option, options[option] === undefined ? null : options[option]]);
+    return crypto.createHash('sha1').update(JSON.stringify(relevant)).digest('hex').substring(0, 12);
+}
+
+/**
+ * Hashes the paths and contents of the custom rule files, so that editing a rule makes the results stale.
+ * The contents are read again only when a rule file was added, removed or modified since the last hash.
+ */
+export async function hashRules(rules: string[] | undefined): Promise<string> {
+    const locations = (rules || []).slice().sort();
+    const files: RuleFile[] = [];
+    for (const location of locations) {
+        files.push(...await listFiles(location));
+    }
+    const key = JSON.stringify(locations);
+    const modified = JSON.stringify(files.map(file => [file.path, file.mtime]));
+    const cached = rulesHashes.get(key);
+    if (cached && cached.modified === modified) {
+        return cached.hash;
+    }
+    const hash = crypto.createHash('sha1');
+    for (const file of files) {
+        hash.update(file.path);
+        hash.update(await fs.readFile(file.path));
+    }
+    const digest = hash.digest('hex').substring(0, 12);
+    rulesHashes.set(key, { modified, hash: digest });
+    return digest;
+}
+
+/**
+ * The version of each ruleset in the results, from its version field or a version label.
+ * Rulesets without either, such as those bundled with the analyzer, map to an empty string.
+ */
+export function getRulesetVersions(jsonResults: any): { [ruleset: string]: string } {
+    const versions = {};
+    ((jsonResults && jsonResults[0] && jsonResults[0]['rulesets']) || []).forEach(ruleset => {
+        const label = (ruleset.labels || []).find(candidate => /(^|\/)version=/.test(candidate));
+        versions[ruleset.name] = ruleset.version || (label ? label.substring(label.indexOf('=') + 1) : '');
+    });
+    return versions;
+}
+
+/**
+ * Asks the analyzer CLI for its version, once per executable. Resolves to undefined when the CLI
+ * cannot tell, as not every analyzer has a version command.
+ */
+export function getAnalyzerVersion(executable: string): Promise<string | undefined> {
+    if (!analyzerVersions.has(executable)) {
+        analyzerVersions.set(executable, new Promise(resolve => {
+            cp.execFile(executable, ['version'], { timeout: VERSION_TIMEOUT }, (error, stdout) => {
+                const output = `${stdout || ''}`.trim();
+                if (error || !output) {
+                    console.log(`Unable to determine the analyzer version of ${executable}: ${error}`);
+                    return resolve(undefined);
+                }
+                const version = /version:?\s*(\S+)/i.exec(output);
+                resolve(version ? version[1] : output.split(/\r?\n/)[0]);
+            });
+        }));
+    }
+    return analyzerVersions.get(executable);
+}
+
+/**
+ * Explains why the results of the configuration may no longer match the current sources and
+ * configuration. No reasons means the results are up to date, as far as can be told.
+ */
+export async function getStaleReasons(config: RhamtConfiguration): Promise<string[]> {
+    const summary = config.summary;
+    if (!summary || !summary.executedTimestampRaw) {
+        return [];
+    }
+    const reasons: string[] = [];
+    if (summary.optionsHash && summary.optionsHash !== hashOptions(config.options)) {
+        reasons.push('The configuration changed since the analysis.');
+    }
+    if (summary.rulesHash && summary.rulesHash !== await hashRules(config.options['rules'])) {
+        reasons.push('The custom rules changed since the analysis.');
+    }
+    const analyzed = new Date(summary.executedTimestampRaw).getTime();
+    const reanalyzed = new Map<string, number>();
+    Object.keys(summary.reanalyzedFiles || {}).forEach(file => reanalyzed.set(path.resolve(file), new Date(summary.reanalyzedFiles[file]).getTime()));
+    const changed = await findChangedFile(config.options['input'] || [], file => Math.max(analyzed, reanalyzed.get(file) || 0), config.options['output']);
+    if (changed) {
+        reasons.push(`Sources changed since the analysis, such as ${changed}.`);
+    }
+    return reasons;
+}
+
+export function formatDuration(durationMs: number | undefined): string {
+    if (durationMs === undefined || durationMs === null) {
+        return '';
+    }
+    const seconds = Math.round(durationMs / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+/**
+ * Returns the first file found under the inputs that was modified after it was last analyzed.
+ */
+async function findChangedFile(inputs: string[], analyzedAt: (file: string) => number, output?: string): Promise<string | undefined> {
+    let scanned = 0;
+    const excluded = output ? path.resolve(output) : undefined;
+    const visit = async (location: string): Promise<string | undefined> => {
+        if (scanned++ > MAX_SCANNED_FILES || path.resolve(location) === excluded) {
+            return undefined;
+        }
+        let stat: fs.Stats;
+        try {
+            stat = await fs.stat(location);
+        }
+        catch (e) {
+            return undefined;
+        }
+        if (!stat.isDirectory()) {
+            return stat.mtime.getTime() > analyzedAt(path.resolve(location)) ? location : undefined;
+        }
+        for (const entry of await fs.readdir(location)) {
+            if (!IGNORED_FOLDERS.has(entry)) {
+                const changed = await visit(path.join(location, entry));
+                if (changed) {
+                    return changed;
+                }
+            }
+        }
+        return undefined;
+    };
+    for (const input of inputs) {
+        const changed = await visit(input);
+        if (changed) {
+            return changed;
+        }
+    }
+    return undefined;
+}
+
+interface RuleFile {
+    path: string;
+    mtime: number;
+}
+
+async function listFiles(location: string): Promise<RuleFile[]> {
+    try {
+        const stat = await fs.stat(location);
+        if (!stat.isDirectory()) {
+            return [{ path: location, mtime: stat.mtime.getTime() }];
+        }
+        const files: RuleFile[] = [];
+        for (const entry of (await fs.readdir(location)).sort()) {
+            files.push(...await listFiles(path.join(location, entry)));
+        }
+        return files;
+    }
+    catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Describes the results of the configuration in markdown: when and how they were produced, and
+ * why they may be stale.
+ */
+export function formatSummary(config: RhamtConfiguration, staleReasons: string[]): string {
+    const summary = config.summary;
+    if (!summary) {
+        return `**${config.name}** has not been analyzed.`;
+    }
+    const lines = [`**${config.name}**`, ''];
+    if (staleReasons.length > 0) {
+        lines.push('⚠ **The results may be stale:**', '');
+        staleReasons.forEach(reason => lines.push(`- ${reason}`));
+        lines.push('');
+    }
+    const rows: [string, string][] = [
+        ['Analyzed', summary.executedTimestamp || 'unknown'],
+        ['Duration', summary.executionDuration || 'unknown'],
+        ['Analyzer', [summary.executable, summary.analyzerVersion].filter(part => part).join(' ') || 'unknown'],
+        ['Incidents', `${summary.hintCount === undefined ? 'unknown' : summary.hintCount}`],
+        ['Options hash', summary.optionsHash ? `\`${summary.optionsHash}\`` : 'unknown'],
+        ['Custom rules hash', summary.rulesHash ? `\`${summary.rulesHash}\`` : 'unknown']
+    ];
+    lines.push('| | |', '|---|---|');
+    rows.forEach(([name, value]) => lines.push(`| ${name} | ${value} |`));
+    const rulesets = Object.keys(summary.rulesetVersions || {}).sort();
+    if (rulesets.length > 0) {
+        lines.push('', '**Rulesets**', '');
+        rulesets.forEach(ruleset => lines.push(`- ${ruleset}${summary.rulesetVersions[ruleset] ? ` ${summary.rulesetVersions[ruleset]}` : ''}`));
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,137 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as path from 'path';
+
+export type ExecutionMode = 'local' | 'container';
+export type ContainerEngine = 'podman' | 'docker';
+
+export const DEFAULT_CONTAINER_IMAGE = 'quay.io/konveyor/kantra';
+export const DEFAULT_CONTAINER_TAG = 'latest';
+
+/**
+ * Where the inputs are mounted, which is also where the analyzer reports their files.
+ */
+export const CONTAINER_SOURCE = '/opt/input/source';
+const CONTAINER_OUTPUT = '/opt/output';
+const CONTAINER_RULES = '/opt/rules';
+
+export interface AnalyzerCommand {
+    executable: string;
+    args: string[];
+}
+
+interface Mount {
+    host: string;
+    container: string;
+}
+
+export function isContainerMode(options: { [option: string]: any }): boolean {
+    return options['execution-mode'] === 'container';
+}
+
+export function getContainerEngine(options: { [option: string]: any }): ContainerEngine {
+    return options['container-engine'] === 'docker' ? 'docker' : 'podman';
+}
+
+export function getContainerImage(options: { [option: string]: any }): string {
+    const image = (options['container-image'] || '').trim() || DEFAULT_CONTAINER_IMAGE;
+    const tag = (options['container-tag'] || '').trim() || DEFAULT_CONTAINER_TAG;
+    return `${image}:${tag}`;
+}
+
+/**
+ * The container path of the input at the given position. The first input is mounted where the
+ * analyzer expects the sources, as it does when it runs locally.
+ */
+export function getContainerSourcePath(index: number): string {
+    return index === 0 ? CONTAINER_SOURCE : `${CONTAINER_SOURCE}-${index}`;
+}
+
+/**
+ * Wraps the analyzer parameters into a run of the configured image with the container engine.
+ * The input, output and rules locations of the parameters are mounted into the container and
+ * replaced with their container paths.
+ */
+export function createContainerCommand(options: { [option: string]: any }, params: string[]): AnalyzerCommand {
+    const engine = getContainerEngine(options);
+    const mounts: Mount[] = [];
+    const args: string[] = [];
+    let param: string | undefined;
+    let index = 0;
+    params.forEach(value => {
+        if (value.startsWith('--')) {
+            param = value;
+            index = 0;
+            args.push(value);
+            return;
+        }
+        let container: string | undefined;
+        if (param === '--input') {
+            container = getContainerSourcePath(index++);
+        }
+        else if (param === '--output') {
+            container = CONTAINER_OUTPUT;
+        }
+        else if (param === '--rules') {
+            container = `${CONTAINER_RULES}/${mounts.filter(mount => mount.container.startsWith(CONTAINER_RULES)).length}/${path.basename(value)}`;
+        }
+        if (container) {
+            mounts.push({ host: path.resolve(value), container });
+            args.push(container);
+        }
+        else {
+            args.push(value);
+        }
+    });
+    // podman relabels the mounts for SELinux, docker does so only on request
+    const suffix = engine === 'podman' ? ':Z' : '';
+    return {
+        executable: engine,
+        args: [
+            'run', '--rm',
+            ...mounts.reduce((all, mount) => all.concat('-v', `${mount.host}:${mount.container}${suffix}`), [] as string[]),
+            getContainerImage(options),
+            ...args
+        ]
+    };
+}
+
+/**
+ * Maps the URI of a file the analyzer reported in the container back to the file in the inputs.
+ * Returns undefined for files outside of the mounted inputs.
+ */
+export function toLocalPath(uri: string, inputs: string[]): string | undefined {
+    const file = uri.replace(/^file:\/\//, '');
+    // later inputs have longer container paths that start with the path of the first
+    for (let index = inputs.length - 1; index >= 0; index--) {
+        const container = `${getContainerSourcePath(index)}/`;
+        if (file.startsWith(container)) {
+            return path.join(inputs[index], ...file.substring(container.length).split('/'));
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The temporary inputs of an analysis of some files of the inputs, one per input, so that each
+ * is mounted where the input is and the files are reported at the container paths of the full analysis.
+ */
+export function getScopedInputs(inputs: string[], scopedInput: string): string[] {
+    return inputs.map((input, index) => index === 0 ? scopedInput : `${scopedInput}-${index}`);
+}
+
+/**
+ * Where a file of the inputs is copied to in the temporary inputs. Returns undefined for files
+ * outside of the inputs.
+ */
+export function toScopedInputPath(file: string, inputs: string[], scopedInputs: string[]): string | undefined {
+    for (let index = 0; index < inputs.length; index++) {
+        const relative = path.relative(inputs[index], file);
+        if (relative && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)) {
+            return path.join(scopedInputs[index], relative);
+        }
+    }
+    return undefined;
+}
@@ -3,7 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import { rhamtEvents } from '../events';
-import { AnalysisResultsSummary, AnalyzerResults } from './analyzerResults';
+import { AnalysisResultsSummary, AnalyzerResults, IncidentResolver } from './analyzerResults';
 import * as path from 'path';
 
 export class RhamtModel {
@@ -99,8 +99,8 @@ export class RhamtConfiguration {
         this._results.deleteIssue(issue);
     }
 
-    markIssueAsComplete(issue: IIssue, complete: boolean): void {
-        this._results.markIssueAsComplete(issue, complete);
+    markIssueAsComplete(issue: IIssue, complete: boolean, resolvedBy?: IncidentResolver): void {
+        this._results.markIssueAsComplete(issue, complete, resolvedBy);
     }
 
     markQuickfixApplied(quickfix: IQuickFix, applied: boolean): void {
@@ -181,7 +181,7 @@ export interface ReportHolder {
 
 export interface IssueContainer {
     getIssue?: () => IIssue;
-    setComplete?: (complete: boolean) => void;
+    setComplete?: (complete: boolean, resolvedBy?: IncidentResolver) => void;
 }
 
 export interface IHint extends IIssue {
@@ -3,23 +3,130 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+export type AnalyzerPhase = 'providers' | 'dependencies' | 'rules' | 'report';
+
+export interface AnalyzerProgress {
+    phase: AnalyzerPhase;
+    /**
+     * Describes the phase, with the rules evaluated so far during rule evaluation.
+     */
+    label: string;
+    /**
+     * 0 to 100, never decreasing during a run.
+     */
+    percent: number;
+    rulesEvaluated?: number;
+    rulesTotal?: number;
+}
+
+/**
+ * Where each phase starts and ends in the overall progress. Rule evaluation usually takes the longest.
+ */
+const PHASES: { [phase in AnalyzerPhase]: { label: string, start: number, end: number } } = {
+    providers: { label: 'Starting providers', start: 0, end: 10 },
+    dependencies: { label: 'Resolving dependencies', start: 10, end: 25 },
+    rules: { label: 'Evaluating rules', start: 25, end: 90 },
+    report: { label: 'Generating report', start: 90, end: 100 }
+};
+
+const PHASE_ORDER: AnalyzerPhase[] = ['providers', 'dependencies', 'rules', 'report'];
+
+/**
+ * The messages kantra logs when it enters each phase, matched against the start of the msg field of a log
+ * line, so paths and versions in the other fields never move the progress. The dependency message is also
+ * matched in kantra's own spelling. The rule responses are logged by the analyzer at higher log levels.
+ */
+const PHASE_MESSAGES: [AnalyzerPhase, RegExp][] = [
+    ['report', /^(writing analysis results to output|generating static report|static report created)/i],
+    ['rules', /^(evaluating rules for violations|rule response received)/i],
+    ['dependencies', /^running (dependency|depencency) (analysis|retrieval)/i],
+    ['providers', /^(running source (code )?analysis|generating analysis log in file|starting provider)/i]
+];
+
+const COMPLETE_MESSAGE = /^generating static report/i;
+const RULE_RESPONSE_MESSAGE = /^rule response received/i;
+
+/**
+ * A logrus line such as: time="..." level=info msg="rule response received" completed=12 matched=3 total=340
+ */
+const MESSAGE_PATTERN = /\bmsg="((?:[^"\\]|\\.)*)"/;
+const COMPLETED_FIELD = /\bcompleted=(\d+)\b/;
+const TOTAL_FIELD = /\btotal=(\d+)\b/;
+
+/**
+ * Follows the log of the analyzer CLI and translates its lines into the phases of the analysis.
+ */
 export class AnalyzerProgressMonitor {
     private _done: boolean = false;
+    private progress: AnalyzerProgress | undefined;
 
-    constructor(private onComplete: any) {
+    constructor(private onComplete: any, private onProgress?: (progress: AnalyzerProgress) => void) {
     }
 
     public handleMessage(msg: any): void {
-        this.delegateMessage(msg);
+        // output arrives in chunks that may hold several lines
+        if (msg && typeof msg === 'string') {
+            msg.split(/\r?\n/).forEach(line => this.delegateMessage(line));
+        }
     }
 
-    private delegateMessage(msg: any) {
-        if (msg && msg.includes('generating static report')) {
+    private delegateMessage(line: string) {
+        const message = MESSAGE_PATTERN.exec(line);
+        // without the structured fields only the text after a level prefix such as INFO[0001] is the message
+        const msg = message ? message[1] : line.replace(/^[A-Z]+\[\d+\]/, '').trim();
+        const fields = message ? line.substring(message.index + message[0].length) : '';
+        const match = PHASE_MESSAGES.find(([, pattern]) => pattern.test(msg));
+        let phase = match ? match[0] : undefined;
+        const current = this.progress ? this.progress.phase : undefined;
+        // the analyzer mentions earlier phases again, e.g. providers while evaluating rules
+        if (!phase || (current && PHASE_ORDER.indexOf(phase) < PHASE_ORDER.indexOf(current))) {
+            phase = current;
+        }
+        if (!phase) {
+            return;
+        }
+        const progress: AnalyzerProgress = phase === current ? { ...this.progress } : { phase, label: PHASES[phase].label, percent: PHASES[phase].start };
+        if (phase === 'rules') {
+            this.countRules(msg, fields, progress);
+        }
+        progress.percent = Math.max(progress.percent, this.progress ? this.progress.percent : 0);
+        if (!this.progress || progress.phase !== this.progress.phase || progress.percent !== this.progress.percent || progress.label !== this.progress.label) {
+            this.progress = progress;
+            if (this.onProgress) {
+                this.onProgress(progress);
+            }
+        }
+        if (COMPLETE_MESSAGE.test(msg) && !this._done) {
+            this._done = true;
             this.onComplete();
         }
     }
 
+    private countRules(msg: string, fields: string, progress: AnalyzerProgress): void {
+        if (!RULE_RESPONSE_MESSAGE.test(msg)) {
+            return;
+        }
+        const completed = COMPLETED_FIELD.exec(fields);
+        const total = TOTAL_FIELD.exec(fields);
+        progress.rulesEvaluated = completed ? parseInt(completed[1], 10) : (progress.rulesEvaluated || 0) + 1;
+        if (total) {
+            progress.rulesTotal = parseInt(total[1], 10);
+        }
+        if (progress.rulesTotal) {
+            const { start, end } = PHASES.rules;
+            progress.percent = start + Math.round((end - start) * Math.min(progress.rulesEvaluated / progress.rulesTotal, 1));
+            progress.label = `${PHASES.rules.label} (${Math.min(progress.rulesEvaluated, progress.rulesTotal)}/${progress.rulesTotal})`;
+        }
+        else {
+            progress.label = `${PHASES.rules.label} (${progress.rulesEvaluated})`;
+        }
+    }
+
+    public getProgress(): AnalyzerProgress | undefined {
+        return this.progress;
+    }
+
     public isDone(): boolean {
         return this._done;
     }
-}
\ No newline at end of file
+}
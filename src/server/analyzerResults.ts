@@ -2,9 +2,44 @@
  *  Copyright (c) Red Hat. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { ModelService } from '../model/modelService';
 import { IClassification, IHint, IIssue, IIssueType, IQuickFix, RhamtConfiguration } from './analyzerModel';
 import * as vscode from 'vscode';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { isContainerMode, toLocalPath } from './analyzerContainer';
+import { createIncidentId, disambiguateIncidentIds, hashSnippet, matchIncidents } from './incidentIdentity';
+
+const INCIDENT_STATE_FILE = 'incident-state.json';
+const INCIDENT_STATE_VERSION = 1;
+
+export type IncidentState = 'complete' | 'deleted';
+
+/**
+ * Who other than the user completed an incident.
+ */
+export type IncidentResolver = 'kai';
+
+/**
+ * The contents of the incident state file, the state of each incident the user triaged by its fingerprint.
+ */
+export interface IncidentStateFile {
+    version: number;
+    incidents: { [fingerprint: string]: IncidentStateEntry };
+}
+
+export interface IncidentStateEntry {
+    state: IncidentState;
+    updated: string;
+    /**
+     * Id and line of the incident when its state was last changed or it was last matched.
+     */
+    id: string;
+    lineNumber: number;
+    /**
+     * Set when the incident was completed on behalf of the user, such as by an accepted Kai fix.
+     */
+    resolvedBy?: IncidentResolver;
+}
 
 export interface AnalysisResultsSummary {
     skippedReports?: boolean;
@@ -18,7 +53,18 @@ export interface AnalysisResultsSummary {
     quickfixCount?: number;
     executedTimestampRaw?: string,
     active?: boolean,
-    activatedExplicity?: boolean
+    activatedExplicity?: boolean,
+    analyzerVersion?: string;
+    rulesetVersions?: { [ruleset: string]: string };
+    /**
+     * Hashes of the options and the custom rules the analysis ran with, to tell whether the results are stale.
+     */
+    optionsHash?: string;
+    rulesHash?: string;
+    /**
+     * When files were last analyzed on their own, after the analysis of the whole configuration.
+     */
+    reanalyzedFiles?: { [file: string]: string };
 }
 
 export class AnalysisResultsUtil {
@@ -33,6 +79,7 @@ export class AnalyzerResults {
     config: RhamtConfiguration;
     jsonResults: any;
     private _model: AnalyzerResults.Model;
+    private incidentState: IncidentStateFile['incidents'] = {};
      
    
     constructor(jsonResults: any, config: RhamtConfiguration) {
@@ -41,7 +88,9 @@ export class AnalyzerResults {
         this.config = config;
     }
 
-    init(): Promise<void> {
+    async init(): Promise<void> {
+        const state = await AnalyzerResults.readState(this.config);
+        this.incidentState = state ? state.incidents : {};
         this._model = {
             hints: [],
             classifications: [],
@@ -50,6 +99,7 @@ export class AnalyzerResults {
         const rulesets = this.jsonResults[0]['rulesets'];
         const outputChannel1 = vscode.window.createOutputChannel("Analyzer Result");
             outputChannel1.show(true);
+        const hints: IHint[] = [];
         rulesets.forEach(ruleset => {
             const violations = ruleset.violations;
             if (violations) {
@@ -58,47 +108,13 @@ export class AnalyzerResults {
                     const incidents = violation.incidents;                    
                     if (incidents) {
                         incidents.forEach(incident => {
-                            const file = (incident.uri as string).replace(this.config.sourceBase(), '');
-                            const root = vscode.workspace.workspaceFolders[0];
-                            const fileUri = vscode.Uri.joinPath(root.uri, file);
+                            const file = this.getIncidentFile(incident);
                             try {
                                 outputChannel1.appendLine(incident.violation);
                                 outputChannel1.appendLine (`Hint: ${JSON.stringify(incident.variables, null, 2)}`);
-                                const hint = {
-                                    type: IIssueType.Hint,
-                                    id: ModelService.generateUniqueId(),
-                                    quickfixes: [],
-                                    file: fileUri.fsPath,
-                                    severity: '',
-                                    ruleId: violationKey,
-                                    rulesetName: ruleset.name,
-                                    effort: '',
-                                    title: '',
-                                    links: [],
-                                    report: '',
-                                    lineNumber: incident.lineNumber || 1,
-                                    column: 0,
-                                    length: 0,
-                                    sourceSnippet: incident.codeSnip ? incident.codeSnip : '',
-                                    category: violation.category,
-                                    hint: incident.message,
-                                    configuration: this.config,
-                                    dom: incident,
-                                    complete: false,
-                                    origin: '',
-                                    variables: incident.variables ? incident.variables: '',
-                                };
-                                
+                                const hint = this.createHint(ruleset, violationKey, violation, incident, file);
                                 outputChannel1.appendLine (`Hint: ${JSON.stringify(hint.variables, null, 2)}`);
-                                this.model.hints.push(hint);
-                                const existingHintsForFile = this._model.issueByFile.get(fileUri.fsPath);
-                                if (existingHintsForFile) {
-                                    existingHintsForFile.push(hint);
-                                } else {
-                                    this._model.issueByFile.set(fileUri.fsPath, [hint]);
-                                    outputChannel1.appendLine (`ISSUEfILE Making new entry # ${this._model.issueByFile.size}`);
-                                    outputChannel1.appendLine (`ISSUEfILE Making new entry for ${fileUri.fsPath}`);
-                                }
+                                hints.push(hint);
                             } catch (e) {
                                 console.log('error creating incident');
                                 console.log(e);
@@ -108,8 +124,134 @@ export class AnalyzerResults {
                 });
             }
         }); 
+        this.addHints(hints);
         outputChannel1.appendLine (`ISSUEBYFILE: ${JSON.stringify(this._model.issueByFile, null, 2)}`);      
-        return Promise.resolve();
+    }
+
+    /**
+     * Replaces the incidents of the given files with those found by an analysis of just these files.
+     * The incidents of other files, and the hints representing them, are left untouched.
+     */
+    mergeFileResults(files: string[], jsonResults: any): void {
+        const scoped = new Set(files);
+        const rulesets: any[] = this.jsonResults[0]['rulesets'] || (this.jsonResults[0]['rulesets'] = []);
+        rulesets.forEach(ruleset => {
+            const violations = ruleset.violations || {};
+            Object.keys(violations).forEach(violationKey => {
+                const violation = violations[violationKey];
+                if (violation.incidents) {
+                    violation.incidents = violation.incidents.filter(incident => !scoped.has(this.getIncidentFile(incident)));
+                }
+            });
+        });
+        this._model.hints = this._model.hints.filter(hint => !scoped.has(hint.file));
+        files.forEach(file => this._model.issueByFile.delete(file));
+
+        const hints: IHint[] = [];
+        (jsonResults[0]['rulesets'] || []).forEach(scopedRuleset => {
+            let ruleset = rulesets.find(candidate => candidate.name === scopedRuleset.name);
+            if (!ruleset) {
+                ruleset = { ...scopedRuleset, violations: {} };
+                rulesets.push(ruleset);
+            }
+            const violations = ruleset.violations || (ruleset.violations = {});
+            const scopedViolations = scopedRuleset.violations || {};
+            Object.keys(scopedViolations).forEach(violationKey => {
+                const scopedViolation = scopedViolations[violationKey];
+                const incidents = (scopedViolation.incidents || []).filter(incident => scoped.has(this.getIncidentFile(incident)));
+                if (incidents.length === 0) {
+                    return;
+                }
+                const violation = violations[violationKey] || (violations[violationKey] = { ...scopedViolation, incidents: [] });
+                violation.incidents = (violation.incidents || []).concat(incidents);
+                incidents.forEach(incident => {
+                    hints.push(this.createHint(ruleset, violationKey, violation, incident, this.getIncidentFile(incident)));
+                });
+            });
+        });
+        this.addHints(hints, true);
+    }
+
+    /**
+     * Adds the hints of newly read incidents to the model, after giving them their final ids and
+     * restoring the state of those the user triaged. Deleted incidents are left out. When the files
+     * of the hints were just re-analyzed, incidents Kai resolved that are found again are no longer
+     * complete, as the fix meant to resolve them did not. Those the user completed stay complete.
+     */
+    private addHints(hints: IHint[], reanalyzed: boolean = false): void {
+        disambiguateIncidentIds(hints);
+        const entries = Object.keys(this.incidentState).map(fingerprint => ({ fingerprint, ...this.incidentState[fingerprint] }));
+        matchIncidents(entries, hints).forEach((entry, hint) => {
+            const fingerprint = getIncidentFingerprint(hint);
+            if (reanalyzed && entry.state === 'complete' && entry.resolvedBy === 'kai') {
+                delete this.incidentState[entry.fingerprint];
+                return;
+            }
+            if (fingerprint !== entry.fingerprint) {
+                // the incident moved, the state follows it
+                delete this.incidentState[entry.fingerprint];
+            }
+            this.incidentState[fingerprint] = { state: entry.state, updated: entry.updated, id: hint.id, lineNumber: hint.lineNumber, resolvedBy: entry.resolvedBy };
+        });
+        hints.forEach(hint => {
+            const state = this.getState(hint);
+            if (state === 'deleted') {
+                return;
+            }
+            hint.complete = state === 'complete';
+            this._model.hints.push(hint);
+            const existing = this._model.issueByFile.get(hint.file);
+            if (existing) {
+                existing.push(hint);
+            }
+            else {
+                this._model.issueByFile.set(hint.file, [hint]);
+            }
+        });
+    }
+
+    /**
+     * Incidents refer to files inside the analyzer container, relative to the source base. When the
+     * configuration runs the analyzer image itself, each input is mounted at its own location.
+     */
+    private getIncidentFile(incident: any): string {
+        if (isContainerMode(this.config.options)) {
+            const local = toLocalPath(incident.uri, this.config.options['input'] || []);
+            if (local) {
+                return local;
+            }
+        }
+        const file = (incident.uri as string).replace(this.config.sourceBase(), '');
+        const root = vscode.workspace.workspaceFolders[0];
+        return vscode.Uri.joinPath(root.uri, file).fsPath;
+    }
+
+    private createHint(ruleset: any, violationKey: string, violation: any, incident: any, file: string): IHint {
+        const sourceSnippet = incident.codeSnip ? incident.codeSnip : '';
+        return {
+            type: IIssueType.Hint,
+            id: createIncidentId(ruleset.name, violationKey, getRelativeFile(file), sourceSnippet),
+            quickfixes: [],
+            file,
+            severity: '',
+            ruleId: violationKey,
+            rulesetName: ruleset.name,
+            effort: '',
+            title: '',
+            links: [],
+            report: '',
+            lineNumber: incident.lineNumber || 1,
+            column: 0,
+            length: 0,
+            sourceSnippet,
+            category: violation.category,
+            hint: incident.message,
+            configuration: this.config,
+            dom: incident,
+            complete: false,
+            origin: '',
+            variables: incident.variables ? incident.variables: '',
+        };
     }
 
     get model(): AnalyzerResults.Model | null {
@@ -117,9 +259,82 @@ export class AnalyzerResults {
     }
     
     deleteIssue(issue: IIssue): void {
+        const hint = issue as IHint;
+        this.setState(hint, 'deleted');
+        this._model.hints = this._model.hints.filter(other => other !== hint);
+        const hints = this._model.issueByFile.get(hint.file);
+        if (hints) {
+            const remaining = hints.filter(other => other !== hint);
+            if (remaining.length > 0) {
+                this._model.issueByFile.set(hint.file, remaining);
+            }
+            else {
+                this._model.issueByFile.delete(hint.file);
+            }
+        }
+    }
+
+    markIssueAsComplete(issue: IIssue, complete: boolean, resolvedBy?: IncidentResolver): void {
+        this.setState(issue as IHint, complete ? 'complete' : undefined, resolvedBy);
+    }
+
+    private getState(hint: IHint): IncidentState | undefined {
+        const entry = this.incidentState[getIncidentFingerprint(hint)];
+        return entry ? entry.state : undefined;
     }
 
-    markIssueAsComplete(issue: IIssue, complete: boolean): void {
+    private setState(hint: IHint, state: IncidentState | undefined, resolvedBy?: IncidentResolver): void {
+        const fingerprint = getIncidentFingerprint(hint);
+        if (state) {
+            this.incidentState[fingerprint] = { state, updated: new Date().toISOString(), id: hint.id, lineNumber: hint.lineNumber, resolvedBy };
+        }
+        else {
+            delete this.incidentState[fingerprint];
+        }
+    }
+
+    /**
+     * Persists which incidents were completed or deleted next to the analyzer output. The state is
+     * applied again whenever the results are loaded, including those of a new analysis, to the
+     * incidents with the same fingerprint.
+     */
+    async saveState(): Promise<void> {
+        await AnalyzerResults.writeState(this.config, {
+            version: INCIDENT_STATE_VERSION,
+            incidents: this.incidentState
+        });
+    }
+
+    static async readState(config: RhamtConfiguration): Promise<IncidentStateFile | undefined> {
+        const location = AnalyzerResults.getStateLocation(config);
+        if (!location || !await fs.pathExists(location)) {
+            return undefined;
+        }
+        try {
+            const state = JSON.parse(await fs.readFile(location, 'utf8'));
+            if (state && state.version === INCIDENT_STATE_VERSION && state.incidents) {
+                return state;
+            }
+            console.log(`Ignoring incident state of unknown version in ${location}`);
+        }
+        catch (e) {
+            console.log(`Error reading incident state from ${location}: ${e}`);
+        }
+        return undefined;
+    }
+
+    static async writeState(config: RhamtConfiguration, state: IncidentStateFile): Promise<void> {
+        const location = AnalyzerResults.getStateLocation(config);
+        if (!location) {
+            return;
+        }
+        await fs.mkdirp(path.dirname(location));
+        await fs.writeFile(location, JSON.stringify(state, null, 4));
+    }
+
+    private static getStateLocation(config: RhamtConfiguration): string | undefined {
+        const output = config.options['output'];
+        return output ? path.resolve(output, INCIDENT_STATE_FILE) : undefined;
     }
 
     markQuickfixApplied(quickfix: IQuickFix, applied: boolean): void {
@@ -130,6 +345,20 @@ export class AnalyzerResults {
     }
 }
 
+/**
+ * Identifies the state of an incident across loads and analysis runs: the rule, the file relative
+ * to the workspace, the line, and a hash of the code snippet so that an incident whose line now
+ * holds different code is not taken for the old one.
+ */
+export function getIncidentFingerprint(hint: IHint): string {
+    return `${hint.ruleId}|${getRelativeFile(hint.file)}|${hint.lineNumber}|${hashSnippet(hint.sourceSnippet)}`;
+}
+
+function getRelativeFile(file: string): string {
+    const root = vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0].uri.fsPath : '';
+    return (root ? path.relative(root, file) : file).split(path.sep).join('/');
+}
+
 export namespace AnalyzerResults {
     
     export interface Model {
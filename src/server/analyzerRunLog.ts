@@ -0,0 +1,190 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RhamtConfiguration } from './analyzerModel';
+
+export const RUNS_FOLDER = 'runs';
+
+const MAX_RUNS = 20;
+
+/**
+ * Environment variables that affect how the analyzer runs. Others are left out of the record,
+ * as they may hold credentials.
+ */
+const RECORDED_ENVIRONMENT = /^(PATH|HOME|JAVA_HOME|JAVA_OPTS|JDK_.*|MAVEN_.*|M2_HOME|GRADLE_.*|KANTRA_.*|CONTAINER_.*|PODMAN_.*|DOCKER_.*)$/i;
+
+export type AnalyzerRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalyzerRunRecord {
+    id: string;
+    executable: string;
+    args: string[];
+    commandLine: string;
+    environment: { [name: string]: string };
+    /**
+     * The options of the configuration at the time of the run.
+     */
+    options: { [option: string]: any };
+    start: string;
+    end?: string;
+    durationMs?: number;
+    exitCode?: number | null;
+    /**
+     * The signal that terminated the analyzer, if any.
+     */
+    signal?: string | null;
+    status: AnalyzerRunStatus;
+}
+
+/**
+ * Records one run of the analyzer: its command line, environment, timing, exit code and full log,
+ * in the runs folder of the configuration's output location. The analyzer may clear the output
+ * location when it starts, so the runs are kept in a temp folder until the run finishes.
+ */
+export class AnalyzerRunLog {
+
+    readonly record: AnalyzerRunRecord;
+    private readonly stagingDir: string;
+    private log: fs.WriteStream | undefined;
+    private finished: Promise<void> | undefined;
+
+    private constructor(private config: RhamtConfiguration, executable: string, args: string[]) {
+        const start = new Date();
+        this.record = {
+            id: start.toISOString().replace(/[:.]/g, '-'),
+            executable,
+            args,
+            commandLine: [executable, ...args].map(quoteArg).join(' '),
+            environment: getRecordedEnvironment(),
+            options: JSON.parse(JSON.stringify(config.options)),
+            start: start.toISOString(),
+            status: 'running'
+        };
+        this.stagingDir = path.join(os.tmpdir(), `mta-runs-${config.id}`);
+    }
+
+    static async start(config: RhamtConfiguration, executable: string, args: string[]): Promise<AnalyzerRunLog> {
+        const run = new AnalyzerRunLog(config, executable, args);
+        const runsDir = AnalyzerRunLog.getRunsLocation(config);
+        try {
+            await fs.mkdirp(run.stagingDir);
+            if (runsDir && await fs.pathExists(runsDir)) {
+                await fs.copy(runsDir, run.stagingDir, { overwrite: false });
+            }
+            await run.writeRecord();
+            run.log = fs.createWriteStream(path.join(run.stagingDir, `${run.record.id}.log`), { flags: 'a' });
+            run.log.on('error', e => console.log(`Error writing analyzer log: ${e}`));
+        }
+        catch (e) {
+            // the analysis runs all the same, without a record
+            console.log(`Error recording the analyzer run: ${e}`);
+        }
+        return run;
+    }
+
+    append(data: string): void {
+        if (this.log) {
+            this.log.write(data.endsWith('\n') ? data : `${data}\n`);
+        }
+    }
+
+    /**
+     * Completes the record and moves it, along with the earlier runs, back to the output location.
+     * Only the first call has an effect, and errors are logged rather than thrown.
+     */
+    finish(status: AnalyzerRunStatus, exitCode?: number | null, signal?: string | null): Promise<void> {
+        if (!this.finished) {
+            this.finished = this.doFinish(status, exitCode, signal).catch(e => console.log(`Error saving the analyzer run: ${e}`));
+        }
+        return this.finished;
+    }
+
+    private async doFinish(status: AnalyzerRunStatus, exitCode?: number | null, signal?: string | null): Promise<void> {
+        const end = new Date();
+        this.record.status = status;
+        this.record.exitCode = exitCode;
+        this.record.signal = signal;
+        this.record.end = end.toISOString();
+        this.record.durationMs = end.getTime() - new Date(this.record.start).getTime();
+        if (this.log) {
+            const log = this.log;
+            this.log = undefined;
+            await new Promise<void>(resolve => log.end(resolve));
+        }
+        await this.writeRecord();
+        await AnalyzerRunLog.prune(this.stagingDir);
+        const runsDir = AnalyzerRunLog.getRunsLocation(this.config);
+        if (runsDir) {
+            await fs.copy(this.stagingDir, runsDir, { overwrite: true });
+            await AnalyzerRunLog.prune(runsDir);
+        }
+        await fs.remove(this.stagingDir);
+    }
+
+    private writeRecord(): Promise<void> {
+        return fs.writeFile(path.join(this.stagingDir, `${this.record.id}.json`), JSON.stringify(this.record, null, 4));
+    }
+
+    /**
+     * The recorded runs of the configuration, most recent first.
+     */
+    static async list(config: RhamtConfiguration): Promise<AnalyzerRunRecord[]> {
+        const runsDir = AnalyzerRunLog.getRunsLocation(config);
+        if (!runsDir || !await fs.pathExists(runsDir)) {
+            return [];
+        }
+        const records: AnalyzerRunRecord[] = [];
+        for (const file of (await fs.readdir(runsDir)).filter(file => file.endsWith('.json'))) {
+            try {
+                records.push(JSON.parse(await fs.readFile(path.join(runsDir, file), 'utf8')));
+            }
+            catch (e) {
+                console.log(`Error reading analyzer run ${file}: ${e}`);
+            }
+        }
+        return records.sort((a, b) => b.start.localeCompare(a.start));
+    }
+
+    static getLogLocation(config: RhamtConfiguration, record: AnalyzerRunRecord): string | undefined {
+        const runsDir = AnalyzerRunLog.getRunsLocation(config);
+        return runsDir ? path.join(runsDir, `${record.id}.log`) : undefined;
+    }
+
+    static getRecordLocation(config: RhamtConfiguration, record: AnalyzerRunRecord): string | undefined {
+        const runsDir = AnalyzerRunLog.getRunsLocation(config);
+        return runsDir ? path.join(runsDir, `${record.id}.json`) : undefined;
+    }
+
+    private static getRunsLocation(config: RhamtConfiguration): string | undefined {
+        const output = config.options['output'];
+        return output ? path.resolve(output, RUNS_FOLDER) : undefined;
+    }
+
+    /**
+     * Removes the oldest runs beyond MAX_RUNS. Run ids sort by their start time.
+     */
+    private static async prune(dir: string): Promise<void> {
+        const ids = (await fs.readdir(dir))
+            .filter(file => file.endsWith('.json'))
+            .map(file => file.substring(0, file.length - '.json'.length))
+            .sort();
+        for (const id of ids.slice(0, Math.max(ids.length - MAX_RUNS, 0))) {
+            await fs.remove(path.join(dir, `${id}.json`));
+            await fs.remove(path.join(dir, `${id}.log`));
+        }
+    }
+}
+
+function getRecordedEnvironment(): { [name: string]: string } {
+    const environment = {};
+    Object.keys(process.env).filter(name => RECORDED_ENVIRONMENT.test(name)).sort().forEach(name => environment[name] = process.env[name]);
+    return environment;
+}
+
+function quoteArg(arg: string): string {
+    return /[\s"'$]/.test(arg) ? `"${arg.replace(/(["\\$])/g, '\\$1')}"` : arg;
+}
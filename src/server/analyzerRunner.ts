@@ -8,9 +8,39 @@ import * as os from 'os';
 
 import { rhamtChannel } from '../util/console';
 
+/**
+ * The analyzer exited with a non-zero code, was killed, or could not be started.
+ */
+export class AnalysisFailedError extends Error {
+
+    constructor(
+        public readonly exitCode: number | null | undefined,
+        public readonly signal: string | null | undefined,
+        /**
+         * The last lines the analyzer printed, on stdout or stderr.
+         */
+        public readonly lastLines: string[],
+        public readonly logLocation?: string) {
+        super(AnalysisFailedError.describe(exitCode, signal));
+        this.name = 'AnalysisFailedError';
+    }
+
+    private static describe(exitCode: number | null | undefined, signal: string | null | undefined): string {
+        if (signal) {
+            return `Analysis failed, the analyzer was terminated by ${signal}`;
+        }
+        if (exitCode !== undefined && exitCode !== null) {
+            return `Analysis failed, the analyzer exited with code ${exitCode}`;
+        }
+        return 'Analysis failed, the analyzer could not be run';
+    }
+}
+
+export type AnalyzerStream = 'stdout' | 'stderr';
+
 export class AnalyzerRunner {
     static run(executable: string, data: any[], startTimeout: number,
-        out: (msg: string) => void, onShutdown: () => void): Promise<cp.ChildProcess> {
+        out: (msg: string, stream: AnalyzerStream) => void, onShutdown: (exitCode?: number | null, signal?: string | null) => void): Promise<cp.ChildProcess> {
         return new Promise<cp.ChildProcess>((resolve, reject) => {
             let started = false;
             let killed = false;
@@ -31,20 +61,22 @@ export class AnalyzerRunner {
                     rhamtChannel.print('\n');
                     rhamtChannel.print(e.name + ' : ' + e.message);
                     rhamtChannel.print('\n'); 
+                    out(`Error executing analyzer: ${e.message}`, 'stderr');
                     rhamtProcess.kill();
                     killed = true;
                 }
                 onShutdown();
             });
-            rhamtProcess.on('close', e => {
+            rhamtProcess.on('close', (code, signal) => {
                 console.log('cli process closed');
-                console.log(e);                
-                onShutdown();
+                console.log(code, signal);                
+                onShutdown(code, signal);
             });
-            const outputListener = (data: string | Buffer) => {
+            // the analyzer may log to either stream, whichever prints first shows it started
+            const outputListener = (stream: AnalyzerStream) => (data: string | Buffer) => {
                 const line = data.toString().trim();
                 console.log(line);
-                out(line);
+                out(line, stream);
                 if (!started) {
                     started = true;
                     resolve(rhamtProcess);
@@ -54,7 +86,8 @@ export class AnalyzerRunner {
                 //     resolve(rhamtProcess);
                 // }
             };
-            rhamtProcess.stdout.addListener('data', outputListener);
+            rhamtProcess.stdout.addListener('data', outputListener('stdout'));
+            rhamtProcess.stderr.addListener('data', outputListener('stderr'));
             setTimeout(() => {
                 if (!started && !killed) {
                     rhamtProcess.kill();
@@ -8,13 +8,19 @@ import { ModelService } from '../model/modelService';
 import { rhamtChannel } from '../util/console';
 import * as fs from 'fs-extra';
 import { DataProvider } from '../tree/dataProvider';
-import { AnalyzerRunner } from './analyzerRunner';
+import { AnalysisFailedError, AnalyzerRunner } from './analyzerRunner';
 import { AnalyzerProcessController } from './analyzerProcessController';
 import { RhamtConfiguration, WINDOW } from './analyzerModel';
 import * as path from 'path';
 import { AnalyzerResults } from './analyzerResults';
 import { AnalyzerProgressMonitor } from './analyzerProgressMonitor';
+import { AnalyzerRunLog } from './analyzerRunLog';
+import { AnalyzerCommand, createContainerCommand, getContainerEngine, getContainerImage, getScopedInputs, isContainerMode, toScopedInputPath } from './analyzerContainer';
+import { formatDuration, getAnalyzerVersion, getRulesetVersions, hashOptions, hashRules } from './analysisSummary';
+import * as os from 'os';
 const START_TIMEOUT = 60000;
+const FAILURE_LOG_LINES = 20;
+const SCOPED_BUILD_FILES = ['pom.xml', 'build.gradle', 'build.gradle.kts', 'settings.gradle', 'settings.gradle.kts'];
 
 export class AnalyzerUtil {
 
@@ -23,16 +29,11 @@ export class AnalyzerUtil {
     static async analyze(dataProvider: DataProvider, config: RhamtConfiguration, modelService: ModelService, onStarted: () => void, onComplete: () => void): Promise<RhamtProcessController> {
         let cli = undefined;
         try {
-            const configCli = config.options['cli'] as string;
-            if (configCli) {
-                cli = configCli.trim();
+            if (isContainerMode(config.options)) {
+                cli = getContainerEngine(config.options);
             }
             else {
-                const analyzerPath = vscode.workspace.getConfiguration('cli.executable').get<string>('path');
-                if (analyzerPath) {
-                    console.log(`preference cli.executable.path found - ${analyzerPath}`);
-                    cli = analyzerPath;
-                }
+                cli = AnalyzerUtil.getLocalExecutable(config);
             }
         } catch (e) {
             return Promise.reject(e);
@@ -48,13 +49,15 @@ export class AnalyzerUtil {
             location: vscode.ProgressLocation.Notification,
             cancellable: true
         }, async (progress: any, token: vscode.CancellationToken) => {
-            return new Promise<any>(async resolve => {
-                const executable = config.rhamtExecutable;
+            return new Promise<any>(async (resolve, reject) => {
+                let executable = config.rhamtExecutable;
                 console.log(`Using executable - ${executable}`);
                 let params = [];
                 try {
                     progress.report({ message: 'Verifying configuration' });
-                    params = await AnalyzerUtil.buildParams(config);
+                    const command = AnalyzerUtil.createCommand(config, await AnalyzerUtil.buildParams(config));
+                    executable = command.executable;
+                    params = command.args;
                 }
                 catch (e) {
                     vscode.window.showErrorMessage(`Error: ${e}`);
@@ -64,10 +67,23 @@ export class AnalyzerUtil {
                 rhamtChannel.clear();
                 rhamtChannel.print(`${executable} ${params.join(' ')}`);
                 config.cancelled = false;
-                const monitor = new AnalyzerProgressMonitor(onComplete);
+                const run = await AnalyzerRunLog.start(config, executable, params);
+                let reported = 0;
+                const monitor = new AnalyzerProgressMonitor(onComplete, phase => {
+                    progress.report({ message: `${phase.label} (${phase.percent}%)`, increment: phase.percent - reported });
+                    reported = phase.percent;
+                    const node = dataProvider.findConfigurationNode(config.id);
+                    if (node) {
+                        node.setProgress(phase);
+                    }
+                });
+                const lastLines: string[] = [];
                 const log = (data: string) => {
                     rhamtChannel.print(data);
                     rhamtChannel.print('\n');
+                    run.append(data);
+                    lastLines.push(...data.split(/\r?\n/).filter(line => line.trim()));
+                    lastLines.splice(0, Math.max(lastLines.length - FAILURE_LOG_LINES, 0));
                     monitor.handleMessage(data);
                 };
                 progress.report({ message: 'Starting analysis...' });
@@ -81,10 +97,24 @@ export class AnalyzerUtil {
                         resolve(undefined);
                     }
                 };
+                // the process has closed once its output is complete, which may be after it exited
+                const onClosed = (exitCode?: number | null, signal?: string | null) => {
+                    const status = cancelled ? 'cancelled' : exitCode === 0 ? 'completed' : 'failed';
+                    run.finish(status, exitCode, signal).then(() => {
+                        if (status === 'failed' && !resolved) {
+                            resolved = true;
+                            AnalyzerUtil.updateRunEnablement(true, dataProvider, config);
+                            reject(new AnalysisFailedError(exitCode, signal, lastLines, AnalyzerRunLog.getLogLocation(config, run.record)));
+                        }
+                        else {
+                            onShutdown();
+                        }
+                    });
+                };
                 try {
-                    processController = AnalyzerUtil.activeProcessController = await AnalyzerRunner.run(config.rhamtExecutable, params, START_TIMEOUT, log, onShutdown).then(cp => {
+                    processController = AnalyzerUtil.activeProcessController = await AnalyzerRunner.run(executable, params, START_TIMEOUT, log, onClosed).then(cp => {
                         onStarted();
-                        return new AnalyzerProcessController(config.rhamtExecutable, cp, onShutdown);
+                        return new AnalyzerProcessController(executable, cp, () => undefined);
                     });
                     if (cancelled) {
                         console.log('cli was cancelled during startup.');
@@ -92,9 +122,10 @@ export class AnalyzerUtil {
                         return;
                     }
                 } catch (e) {
+                    // the process is gone or being killed, it reports how it ended when it closes
                     console.log('Error executing cli');
                     console.log(e);
-                    onShutdown();
+                    log(`${e}`);
                 }
                 token.onCancellationRequested(() => {
                     cancelled = true;
@@ -108,7 +139,9 @@ export class AnalyzerUtil {
                         resolve(undefined);
                     }
                 });
-                progress.report({ message: 'Analysis in Progress' });
+                if (!monitor.getProgress()) {
+                    progress.report({ message: 'Analysis in Progress' });
+                }
             });
         });
     }
@@ -124,6 +157,129 @@ export class AnalyzerUtil {
         vscode.commands.executeCommand('setContext', 'delete-enabled', enabled);
     }
 
+    /**
+     * Analyzes only the given files of the workspace and merges the incidents found into the results
+     * of the configuration, replacing the previous incidents of these files. The files are copied,
+     * along with the build files at the workspace root, into a temporary input that the analyzer
+     * sees at the same paths, and the merged results are written back to the output location.
+     * In container mode each input gets its own temporary input, with its own build files.
+     */
+    static async analyzeFiles(config: RhamtConfiguration, files: string[]): Promise<void> {
+        if (!config.results) {
+            return Promise.reject('Run the analysis of the configuration before re-analyzing files.');
+        }
+        if (!isContainerMode(config.options) && !AnalyzerUtil.getLocalExecutable(config)) {
+            return Promise.reject('Cannot find analyzer executable path.');
+        }
+        const root = vscode.workspace.workspaceFolders[0].uri.fsPath;
+        const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kai-reanalyze-'));
+        const input = path.join(workDir, 'input');
+        const output = path.join(workDir, 'output');
+        // in a container the files are reported relative to the input they belong to, otherwise to the workspace
+        let roots = [root];
+        let inputs = [input];
+        if (isContainerMode(config.options)) {
+            roots = (config.options['input'] || []).map(location => path.resolve(location));
+            inputs = getScopedInputs(roots, input);
+        }
+        const buildFiles = roots.reduce((all, location) => all.concat(SCOPED_BUILD_FILES.map(name => path.join(location, name))), [] as string[]);
+        // the files are copied first, later changes are not part of this analysis
+        const startedAt = new Date().toISOString();
+        try {
+            for (const scopedInput of inputs) {
+                await fs.ensureDir(scopedInput);
+            }
+            for (const file of [...files, ...buildFiles]) {
+                const target = toScopedInputPath(file, roots, inputs);
+                if (target && await fs.pathExists(file)) {
+                    await fs.copy(file, target);
+                }
+            }
+            const params = await AnalyzerUtil.buildParams(config);
+            AnalyzerUtil.replaceParam(params, '--input', inputs);
+            AnalyzerUtil.replaceParam(params, '--output', [output]);
+            // the results are read from the static report
+            const scopedParams = params.filter(param => param !== '--skip-static-report' && param !== '--overwrite');
+            scopedParams.push('--overwrite');
+            const command = AnalyzerUtil.createCommand(config, scopedParams);
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Re-analyzing ${files.length === 1 ? path.basename(files[0]) : `${files.length} files`}`,
+                cancellable: true
+            }, (progress, token) => new Promise<void>((resolve, reject) => {
+                rhamtChannel.print(`\n${command.executable} ${command.args.join(' ')}\n`);
+                let processController: AnalyzerProcessController;
+                token.onCancellationRequested(() => {
+                    if (processController) {
+                        processController.shutdown();
+                    }
+                    reject('Re-analysis cancelled.');
+                });
+                const lastLines: string[] = [];
+                AnalyzerRunner.run(command.executable, command.args, START_TIMEOUT, data => {
+                    rhamtChannel.print(data);
+                    rhamtChannel.print('\n');
+                    lastLines.push(...data.split(/\r?\n/).filter(line => line.trim()));
+                    lastLines.splice(0, Math.max(lastLines.length - FAILURE_LOG_LINES, 0));
+                }, (exitCode, signal) => exitCode === 0 ? resolve() : reject(new AnalysisFailedError(exitCode, signal, lastLines))).then(cp => {
+                    processController = new AnalyzerProcessController(command.executable, cp, () => undefined);
+                    progress.report({ message: 'Analysis in Progress' });
+                }).catch(reject);
+            }));
+
+            const location = path.resolve(output, ...config.static());
+            if (!await fs.pathExists(location)) {
+                return Promise.reject(`The analyzer produced no results at ${location}. See the analyzer output for details.`);
+            }
+            const scopedResults = JSON.parse((await fs.readFile(location, 'utf8')).replace(WINDOW, ''));
+            config.results.mergeFileResults(files, scopedResults);
+            config.summary.hintCount = config.results.model.hints.length;
+            const reanalyzedFiles = config.summary.reanalyzedFiles || (config.summary.reanalyzedFiles = {});
+            files.forEach(file => reanalyzedFiles[file] = startedAt);
+            const resultsLocation = path.resolve(config.options['output'], ...config.static());
+            await fs.writeFile(resultsLocation, `${WINDOW}${JSON.stringify(config.results.jsonResults)}`);
+        }
+        finally {
+            fs.remove(workDir).catch(e => console.log(`Error removing ${workDir}: ${e}`));
+        }
+    }
+
+    /**
+     * The analyzer CLI of the configuration, or the one of the preferences.
+     */
+    private static getLocalExecutable(config: RhamtConfiguration): string | undefined {
+        const configCli = config.options['cli'] as string;
+        if (configCli) {
+            return configCli.trim();
+        }
+        const analyzerPath = vscode.workspace.getConfiguration('cli.executable').get<string>('path');
+        if (analyzerPath) {
+            console.log(`preference cli.executable.path found - ${analyzerPath}`);
+        }
+        return analyzerPath;
+    }
+
+    /**
+     * Runs the analyzer with the given parameters either directly or, in container mode, from
+     * the configured image.
+     */
+    private static createCommand(config: RhamtConfiguration, params: string[]): AnalyzerCommand {
+        if (isContainerMode(config.options)) {
+            return createContainerCommand(config.options, params);
+        }
+        return { executable: AnalyzerUtil.getLocalExecutable(config), args: params };
+    }
+
+    private static replaceParam(params: string[], name: string, values: string[]): void {
+        const index = params.indexOf(name);
+        let end = index + 1;
+        while (end < params.length && !params[end].startsWith('--')) {
+            end++;
+        }
+        params.splice(index + 1, end - index - 1, ...values);
+    }
+
     private static buildParams(config: RhamtConfiguration): Promise<any[]> {
         const params = [];
         const options = config.options;
@@ -272,6 +428,7 @@ export class AnalyzerUtil {
                     config.summary.quickfixes = [];
                     config.summary.hintCount = config.results.model.hints.length;
                     config.summary.classificationCount = 0;
+                    await AnalyzerUtil.describeRun(config, results);
                 }
                 return resolve();
             }
@@ -282,6 +439,39 @@ export class AnalyzerUtil {
         });
     }
 
+    /**
+     * Fills in when and how the results of the summary were produced, from the record of the
+     * latest completed run or, for results of a run outside of the IDE, the time the results were written.
+     */
+    private static async describeRun(config: RhamtConfiguration, results: any): Promise<void> {
+        const summary = config.summary;
+        const run = (await AnalyzerRunLog.list(config)).find(record => record.status === 'completed');
+        let options = config.options;
+        if (run) {
+            summary.executedTimestampRaw = run.start;
+            summary.executionDuration = formatDuration(run.durationMs);
+            options = run.options;
+        }
+        else {
+            const location = path.resolve(config.options['output'], ...config.static());
+            if (await fs.pathExists(location)) {
+                summary.executedTimestampRaw = (await fs.stat(location)).mtime.toISOString();
+            }
+        }
+        if (summary.executedTimestampRaw) {
+            summary.executedTimestamp = new Date(summary.executedTimestampRaw).toLocaleString();
+        }
+        summary.optionsHash = hashOptions(options);
+        summary.rulesHash = await hashRules(options['rules']);
+        summary.rulesetVersions = getRulesetVersions(results);
+        if (isContainerMode(options)) {
+            summary.analyzerVersion = getContainerImage(options);
+        }
+        else if (config.rhamtExecutable) {
+            summary.analyzerVersion = await getAnalyzerVersion(config.rhamtExecutable);
+        }
+    }
+
     public static async readAnalyzerResults(config: RhamtConfiguration): Promise<any> {
         return new Promise<void>((resolve, reject) => {
             try {
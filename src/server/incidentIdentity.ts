@@ -0,0 +1,101 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as crypto from 'crypto';
+
+/**
+ * An incident of some analysis run, as far as it is needed to recognize it in another run.
+ */
+export interface TrackedIncident {
+    id: string;
+    lineNumber: number;
+}
+
+/**
+ * Strips the line numbers the analyzer prefixes to each line of a code snippet, along with
+ * indentation and blank lines, so that the snippet of an incident that moved is unchanged.
+ */
+export function normalizeSnippet(snippet: string): string {
+    const lines = (snippet || '').replace(/\r\n/g, '\n').split('\n').filter(line => line.trim().length > 0);
+    const numbered = lines.length > 0 && lines.every(line => /^\s*\d+ {2}/.test(line));
+    return lines.map(line => (numbered ? line.replace(/^\s*\d+ {2}/, '') : line).trim()).filter(line => line.length > 0).join('\n');
+}
+
+export function hashSnippet(snippet: string): string {
+    return hash(normalizeSnippet(snippet)).substring(0, 12);
+}
+
+/**
+ * Derives the id of an incident from what stays the same when lines are added or removed
+ * above it. The file must be relative to the workspace.
+ */
+export function createIncidentId(rulesetName: string, ruleId: string, file: string, snippet: string): string {
+    return hash(`${rulesetName}|${ruleId}|${file}|${hashSnippet(snippet)}`).substring(0, 16);
+}
+
+/**
+ * Makes the ids of incidents sharing the same one unique by suffixing all but the first in line
+ * order with their position, e.g. when a rule matches the same code twice in a file.
+ */
+export function disambiguateIncidentIds<T extends TrackedIncident>(incidents: T[]): void {
+    const byId = new Map<string, T[]>();
+    incidents.forEach(incident => {
+        const group = byId.get(incident.id);
+        if (group) {
+            group.push(incident);
+        }
+        else {
+            byId.set(incident.id, [incident]);
+        }
+    });
+    byId.forEach(group => group
+        .sort((a, b) => a.lineNumber - b.lineNumber)
+        .forEach((incident, index) => {
+            if (index > 0) {
+                incident.id = `${incident.id}-${index + 1}`;
+            }
+        }));
+}
+
+/**
+ * The id of an incident without the suffix added by disambiguateIncidentIds.
+ */
+export function getIncidentKey(id: string): string {
+    return id.split('-')[0];
+}
+
+/**
+ * Pairs the incidents of a previous run with those of the current one. Incidents with the same id
+ * on the same line are paired first, then those of the same rule, file and snippet whose line
+ * shifted, closest lines first. Incidents that are new or gone are left out.
+ */
+export function matchIncidents<P extends TrackedIncident, C extends TrackedIncident>(previous: P[], current: C[]): Map<C, P> {
+    const matches = new Map<C, P>();
+    const matched = new Set<P>();
+    current.forEach(incident => {
+        const same = previous.find(candidate => !matched.has(candidate) && candidate.id === incident.id && candidate.lineNumber === incident.lineNumber);
+        if (same) {
+            matches.set(incident, same);
+            matched.add(same);
+        }
+    });
+    const pairs: { incident: C, candidate: P, distance: number }[] = [];
+    current.filter(incident => !matches.has(incident)).forEach(incident => {
+        const key = getIncidentKey(incident.id);
+        previous.filter(candidate => !matched.has(candidate) && getIncidentKey(candidate.id) === key).forEach(candidate => {
+            pairs.push({ incident, candidate, distance: Math.abs(candidate.lineNumber - incident.lineNumber) });
+        });
+    });
+    pairs.sort((a, b) => a.distance - b.distance).forEach(pair => {
+        if (!matches.has(pair.incident) && !matched.has(pair.candidate)) {
+            matches.set(pair.incident, pair.candidate);
+            matched.add(pair.candidate);
+        }
+    });
+    return matches;
+}
+
+function hash(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex');
+}
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { WebviewPanel, window, ViewColumn, ExtensionContext, commands } from 'vscode';
+import { RhamtConfiguration } from '../server/analyzerModel';
+import { formatSummary, getStaleReasons } from '../server/analysisSummary';
+
+/**
+ * Shows when and how the results of a configuration were produced, and whether they are stale.
+ */
+export class AnalysisSummaryView {
+
+    private view: WebviewPanel | undefined = undefined;
+
+    constructor(private context: ExtensionContext) {
+        this.context.subscriptions.push(commands.registerCommand('rhamt.showAnalysisSummary', async item => {
+            const config = item && item.config as RhamtConfiguration;
+            if (!config || !config.summary) {
+                return window.showInformationMessage('Run the analysis of the configuration to see its summary.');
+            }
+            await this.open(config);
+        }));
+    }
+
+    private async open(config: RhamtConfiguration): Promise<void> {
+        if (!this.view) {
+            this.view = window.createWebviewPanel('rhamtAnalysisSummary', 'Analysis Summary', ViewColumn.Beside, {});
+            this.view.onDidDispose(() => this.view = undefined);
+        }
+        this.view.title = `Analysis Summary: ${config.name}`;
+        const staleReasons = await getStaleReasons(config);
+        const showdown = require('showdown');
+        const converter = new showdown.Converter({ tables: true });
+        this.view.webview.html = `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+                <style>
+                    table { border-collapse: collapse; }
+                    td { padding: 2px 12px 2px 0; vertical-align: top; }
+                </style>
+            </head>
+            <body>${converter.makeHtml(formatSummary(config, staleReasons))}</body>
+            </html>`;
+        this.view.reveal();
+    }
+}
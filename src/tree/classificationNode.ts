@@ -7,6 +7,7 @@ import * as vscode from 'vscode';
 import { DataProvider } from './dataProvider';
 import { ClassificationItem } from './classificationItem';
 import { RhamtConfiguration, IClassification, ReportHolder, IssueContainer, IIssue } from '../server/analyzerModel';
+import { IncidentResolver } from '../server/analyzerResults';
 import { ModelService } from '../model/modelService';
 import { ConfigurationNode } from './configurationNode';
 
@@ -52,9 +53,9 @@ export class ClassificationNode extends AbstractNode implements ReportHolder, Is
         return this.classification;
     }
 
-    setComplete(complete: boolean): void {
+    setComplete(complete: boolean, resolvedBy?: IncidentResolver): void {
         this.getIssue().complete = complete;
-        this.config.markIssueAsComplete(this.getIssue(), complete);
+        this.config.markIssueAsComplete(this.getIssue(), complete, resolvedBy);
         (this.treeItem as ClassificationItem).refresh();
         this.dataProvider.refresh(this);
     }
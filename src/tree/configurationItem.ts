@@ -2,8 +2,10 @@
  *  Copyright (c) Red Hat. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { Command, ThemeIcon, TreeItem, TreeItemCollapsibleState, Uri } from 'vscode';
+import { Command, MarkdownString, ThemeIcon, TreeItem, TreeItemCollapsibleState, Uri } from 'vscode';
 import { RhamtConfiguration } from '../server/analyzerModel';
+import { AnalyzerProgress } from '../server/analyzerProgressMonitor';
+import { formatSummary } from '../server/analysisSummary';
 
 export class ConfigurationItem extends TreeItem {
 
@@ -12,6 +14,12 @@ export class ConfigurationItem extends TreeItem {
 
     config: RhamtConfiguration;
     busyAnalyzing = false;
+    progress: AnalyzerProgress | undefined;
+    hasRunHistory = false;
+    /**
+     * Why the results may no longer match the sources and the configuration.
+     */
+    staleReasons: string[] = [];
 
     constructor(config: RhamtConfiguration) {
         super('Loading...');
@@ -45,7 +53,7 @@ export class ConfigurationItem extends TreeItem {
         this.description = '';
         // let highlights: [number, number][] = undefined;
         if (this.busyAnalyzing && !(this.config.summary && this.config.summary.active)) {
-            this.description = '(analyzing...)';
+            this.description = this.progress ? `(analyzing ${this.progress.percent}% · ${this.progress.label})` : '(analyzing...)';
             this.collapsibleState = TreeItemCollapsibleState.None;
         }
         else if (this.config.summary && this.config.summary.active) {
@@ -54,16 +62,17 @@ export class ConfigurationItem extends TreeItem {
             // label += ` ${activeLabel}`;
             this.collapsibleState = TreeItemCollapsibleState.Expanded;
             // highlights = [[start + 2, start + activeLabel.length]];
-            this.description = '(active)';
+            this.description = this.staleReasons.length > 0 ? '(active, stale)' : '(active)';
         } 
         else {
-            this.collapsibleState = TreeItemCollapsibleState.None;
+            this.collapsibleState = this.hasRunHistory ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None;
             if (!this.config.summary) {
                 // label += ` (unanalyzed)`;
                 this.description = '(unanalyzed)';
             }
         }
         this.label = { label /*, highlights */};
+        this.tooltip = new MarkdownString(formatSummary(this.config, this.staleReasons));
     }
 
     getIcon(): ThemeIcon {
@@ -78,5 +87,10 @@ export class ConfigurationItem extends TreeItem {
 
     setBusyAnalyzing(busyAnalyzing: boolean): void {
         this.busyAnalyzing = busyAnalyzing;
+        this.progress = undefined;
+    }
+
+    setProgress(progress: AnalyzerProgress): void {
+        this.progress = progress;
     }
 }
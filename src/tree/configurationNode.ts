@@ -3,13 +3,18 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 import { ConfigurationItem } from './configurationItem';
-import { EventEmitter, TreeItemCollapsibleState, Uri, workspace } from 'vscode';
+import { Disposable, EventEmitter, TextDocument, TreeItemCollapsibleState, Uri, workspace } from 'vscode';
 import { AbstractNode, ITreeNode } from './abstractNode';
 import { ClassificationNode } from './classificationNode';
 import { DataProvider } from './dataProvider';
 import * as path from 'path';
 import { HintNode } from './hintNode';
 import { RhamtConfiguration, ChangeType, IClassification, IHint, ReportHolder, IIssue, IssueContainer } from '../server/analyzerModel';
+import { AnalyzerProgress } from '../server/analyzerProgressMonitor';
+import { IncidentResolver } from '../server/analyzerResults';
+import { AnalyzerRunLog } from '../server/analyzerRunLog';
+import { RunHistoryNode } from './runHistoryNode';
+import { getStaleReasons } from '../server/analysisSummary';
 import { ModelService } from '../model/modelService';
 import { FileNode } from './fileNode';
 import { FolderNode } from './folderNode';
@@ -19,12 +24,14 @@ import { SortUtil } from './sortUtil';
 import { ResultsNode } from './resultsNode';
 import { MarkerService } from '../source/markers';
 
+const STALE_CHECK_DELAY = 2000;
+
 export interface Grouping {
     groupByFile: boolean;
     groupBySeverity: boolean;
 }
 
-export class ConfigurationNode extends AbstractNode<ConfigurationItem> implements ReportHolder {
+export class ConfigurationNode extends AbstractNode<ConfigurationItem> implements ReportHolder, Disposable {
 
     private grouping: Grouping;
     private classifications: IClassification[] = [];
@@ -35,6 +42,9 @@ export class ConfigurationNode extends AbstractNode<ConfigurationItem> implement
     private childNodes = new Map<string, ITreeNode>();
 
     results = [];
+    private runHistory: RunHistoryNode;
+    private staleCheck: NodeJS.Timer | undefined;
+    private subscriptions: Disposable[] = [];
 
     constructor(
         config: RhamtConfiguration,
@@ -45,6 +55,7 @@ export class ConfigurationNode extends AbstractNode<ConfigurationItem> implement
         public markerService: MarkerService) {
         super(config, modelService, onNodeCreateEmitter, dataProvider);
         this.grouping = grouping;
+        this.runHistory = new RunHistoryNode(config, modelService, onNodeCreateEmitter, dataProvider, this);
         this.listen();
     }
 
@@ -72,14 +83,55 @@ export class ConfigurationNode extends AbstractNode<ConfigurationItem> implement
     }
 
     private async listen(): Promise<void> {
-        this.config.onChanged.on(change => {
+        this.subscriptions.push(this.config.onChanged.on(change => {
             if (change.type === ChangeType.MODIFIED &&
                 change.name === 'name') {
                 this.refresh(this);
             }
+            this.checkStaleness();
+        }));
+        this.subscriptions.push(workspace.onDidSaveTextDocument(document => {
+            if (this.isInput(document)) {
+                this.checkStaleness();
+            }
+        }));
+    }
+
+    private isInput(document: TextDocument): boolean {
+        const file = path.resolve(document.uri.fsPath);
+        return (this.config.options['input'] || []).some(input => {
+            const relative = path.relative(path.resolve(input), file);
+            return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
         });
     }
 
+    public dispose(): void {
+        if (this.staleCheck) {
+            clearTimeout(this.staleCheck);
+            this.staleCheck = undefined;
+        }
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions = [];
+    }
+
+    /**
+     * Compares the results with the current sources and configuration, shortly after the last
+     * of a series of changes.
+     */
+    public checkStaleness(): void {
+        if (this.staleCheck) {
+            clearTimeout(this.staleCheck);
+        }
+        this.staleCheck = setTimeout(async () => {
+            this.staleCheck = undefined;
+            const reasons = this.config.results ? await getStaleReasons(this.config) : [];
+            if (this.treeItem && reasons.join() !== this.treeItem.staleReasons.join()) {
+                this.treeItem.staleReasons = reasons;
+                this.refresh(this);
+            }
+        }, STALE_CHECK_DELAY);
+    }
+
     public loadResults(): void {
         if (this.config.results) {
             this.computeIssues();
@@ -92,6 +144,25 @@ export class ConfigurationNode extends AbstractNode<ConfigurationItem> implement
                     this)
             ];
         }
+        this.loadRunHistory();
+        this.checkStaleness();
+    }
+
+    /**
+     * Shows the runs recorded in the output location, also for configurations without results
+     * such as those whose analysis failed.
+     */
+    public async loadRunHistory(): Promise<void> {
+        const runs = await AnalyzerRunLog.list(this.config);
+        this.runHistory.setRuns(runs);
+        this.results = this.results.filter(node => node !== this.runHistory);
+        if (runs.length > 0) {
+            this.results.push(this.runHistory);
+        }
+        if (this.treeItem) {
+            this.treeItem.hasRunHistory = runs.length > 0;
+            this.refresh(this);
+        }
     }
 
     private clearModel(): void {
@@ -318,9 +389,13 @@ export class ConfigurationNode extends AbstractNode<ConfigurationItem> implement
         }
     }
 
-    setComplete(node: any, complete: boolean): void {
+    getIssueNode(issue: IIssue): ITreeNode | undefined {
+        return this.issueNodes.get(issue);
+    }
+
+    setComplete(node: any, complete: boolean, resolvedBy?: IncidentResolver): void {
         const container = node as IssueContainer;
-        container.setComplete(complete);
+        container.setComplete(complete, resolvedBy);
     }
 
 
@@ -328,6 +403,11 @@ export class ConfigurationNode extends AbstractNode<ConfigurationItem> implement
         this.treeItem.collapsibleState = TreeItemCollapsibleState.Expanded;
     }
 
+    setProgress(progress: AnalyzerProgress): void {
+        this.treeItem.setProgress(progress);
+        this.refresh(this);
+    }
+
     setBusyAnalyzing(busyAnalyzing: boolean): void {
         const currentlyBusyAnalyzing = this.treeItem.busyAnalyzing;
         this.treeItem.setBusyAnalyzing(busyAnalyzing);
@@ -58,6 +58,7 @@ export class DataProvider implements TreeDataProvider<ITreeNode>, Disposable {
         for (const disposable of this._disposables) {
             disposable.dispose();
         }
+        this.children.forEach(node => node.dispose());
     }
 
     public getParent(element: ITreeNode): ProviderResult<ITreeNode> {
@@ -123,6 +124,7 @@ export class DataProvider implements TreeDataProvider<ITreeNode>, Disposable {
             if (index > -1) {
                 this.children.splice(index, 1);
             }
+            node.dispose();
         }
         this.refresh(undefined);
     }
@@ -158,7 +160,7 @@ export class DataProvider implements TreeDataProvider<ITreeNode>, Disposable {
                 for (let i = this.children.length; i--;) {
                     const config = this.modelService.model.configurations.find(item => item.id === this.children[i].config.id);
                     if (!config) {
-                        this.children.splice(i, 1);
+                        this.children.splice(i, 1)[0].dispose();
                     }
                 }
                 nodes = this.modelService.model.configurations.map(config => {
@@ -7,6 +7,7 @@ import * as vscode from 'vscode';
 import { DataProvider } from './dataProvider';
 import { HintItem } from './hintItem';
 import { IHint, RhamtConfiguration, ReportHolder, IssueContainer, IIssue, IQuickFix, ChangeType } from '../server/analyzerModel';
+import { IncidentResolver } from '../server/analyzerResults';
 import { ModelService } from '../model/modelService';
 import { ConfigurationNode } from './configurationNode';
 
@@ -67,9 +68,9 @@ export class HintNode extends AbstractNode<HintItem> implements ReportHolder, Is
         return this.hint;
     }
 
-    setComplete(complete: boolean): void {
+    setComplete(complete: boolean, resolvedBy?: IncidentResolver): void {
         this.getIssue().complete = complete;
-        this.config.markIssueAsComplete(this.getIssue(), complete);
+        this.config.markIssueAsComplete(this.getIssue(), complete, resolvedBy);
         (this.treeItem as HintItem).refresh();
         this.dataProvider.refresh(this);
         this.root.markerService.refreshOpenEditors(this.getIssue().file);
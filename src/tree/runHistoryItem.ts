@@ -0,0 +1,24 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+
+export class RunHistoryItem extends TreeItem {
+
+    static LABEL = 'Run History';
+    collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.Collapsed;
+    iconPath = new ThemeIcon('history');
+
+    constructor() {
+        super(RunHistoryItem.LABEL);
+    }
+
+    public refresh(runCount: number): void {
+        this.description = `${runCount} run${runCount === 1 ? '' : 's'}`;
+    }
+
+    public get contextValue(): string {
+        return 'runHistory';
+    }
+}
@@ -0,0 +1,57 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { EventEmitter } from 'vscode';
+import { AbstractNode, ITreeNode } from './abstractNode';
+import { DataProvider } from './dataProvider';
+import { RhamtConfiguration } from '../server/analyzerModel';
+import { ModelService } from '../model/modelService';
+import { ConfigurationNode } from './configurationNode';
+import { RunHistoryItem } from './runHistoryItem';
+import { RunNode } from './runNode';
+import { AnalyzerRunRecord } from '../server/analyzerRunLog';
+
+export class RunHistoryNode extends AbstractNode<RunHistoryItem> {
+
+    private children: RunNode[] = [];
+
+    constructor(
+        config: RhamtConfiguration,
+        modelService: ModelService,
+        onNodeCreateEmitter: EventEmitter<ITreeNode>,
+        dataProvider: DataProvider,
+        root: ConfigurationNode) {
+        super(config, modelService, onNodeCreateEmitter, dataProvider);
+        this.root = root;
+    }
+
+    createItem(): RunHistoryItem {
+        this.treeItem = new RunHistoryItem();
+        this.treeItem.refresh(this.children.length);
+        return this.treeItem;
+    }
+
+    setRuns(records: AnalyzerRunRecord[]): void {
+        this.children = records.map(record => new RunNode(this.config, this.modelService, this.onNodeCreateEmitter, this.dataProvider, this.root, record));
+        if (this.treeItem) {
+            this.treeItem.refresh(this.children.length);
+        }
+    }
+
+    delete(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    getLabel(): string {
+        return RunHistoryItem.LABEL;
+    }
+
+    public getChildren(): Promise<ITreeNode[]> {
+        return Promise.resolve(this.children);
+    }
+
+    public hasMoreChildren(): boolean {
+        return this.children.length > 0;
+    }
+}
@@ -0,0 +1,70 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { Command, MarkdownString, ThemeColor, ThemeIcon, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { RhamtConfiguration } from '../server/analyzerModel';
+import { AnalyzerRunRecord } from '../server/analyzerRunLog';
+import { formatDuration } from '../server/analysisSummary';
+
+export class RunItem extends TreeItem {
+
+    collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None;
+
+    constructor(public readonly config: RhamtConfiguration, public readonly record: AnalyzerRunRecord) {
+        super(new Date(record.start).toLocaleString());
+        this.description = [record.status, formatDuration(record.durationMs)].filter(part => part).join(' · ');
+        this.iconPath = this.getIcon();
+        this.tooltip = this.getTooltip();
+    }
+
+    private getIcon(): ThemeIcon {
+        switch (this.record.status) {
+            case 'completed':
+                return new ThemeIcon('pass', new ThemeColor('testing.iconPassed'));
+            case 'failed':
+                return new ThemeIcon('error', new ThemeColor('testing.iconFailed'));
+            case 'cancelled':
+                return new ThemeIcon('circle-slash');
+            default:
+                return new ThemeIcon('sync~spin');
+        }
+    }
+
+    /**
+     * Lists the command line and the options the run was made with.
+     */
+    private getTooltip(): MarkdownString {
+        const record = this.record;
+        const tooltip = new MarkdownString();
+        tooltip.appendMarkdown(`**${record.status}**`);
+        if (record.exitCode !== undefined) {
+            tooltip.appendMarkdown(` (exit code ${record.exitCode === null ? 'none' : record.exitCode})`);
+        }
+        tooltip.appendMarkdown(`\n\nStarted ${new Date(record.start).toLocaleString()}`);
+        if (record.end) {
+            tooltip.appendMarkdown(`, ended ${new Date(record.end).toLocaleString()}`);
+        }
+        tooltip.appendMarkdown('\n\n');
+        tooltip.appendCodeblock(record.commandLine, 'shell');
+        const options = Object.keys(record.options || {})
+            .filter(option => record.options[option] !== undefined && record.options[option] !== '')
+            .map(option => `${option}: ${Array.isArray(record.options[option]) ? record.options[option].join(', ') : record.options[option]}`);
+        if (options.length > 0) {
+            tooltip.appendCodeblock(options.join('\n'), 'yaml');
+        }
+        return tooltip;
+    }
+
+    public get command(): Command {
+        return {
+            command: 'rhamt.openAnalyzerRunLog',
+            title: 'Open Log',
+            arguments: [this]
+        };
+    }
+
+    public get contextValue(): string {
+        return 'analyzerRun';
+    }
+}
@@ -0,0 +1,43 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { EventEmitter } from 'vscode';
+import { AbstractNode, ITreeNode } from './abstractNode';
+import { DataProvider } from './dataProvider';
+import { RhamtConfiguration } from '../server/analyzerModel';
+import { ModelService } from '../model/modelService';
+import { ConfigurationNode } from './configurationNode';
+import { RunItem } from './runItem';
+import { AnalyzerRunRecord } from '../server/analyzerRunLog';
+
+export class RunNode extends AbstractNode<RunItem> {
+
+    constructor(
+        config: RhamtConfiguration,
+        modelService: ModelService,
+        onNodeCreateEmitter: EventEmitter<ITreeNode>,
+        dataProvider: DataProvider,
+        root: ConfigurationNode,
+        public readonly record: AnalyzerRunRecord) {
+        super(config, modelService, onNodeCreateEmitter, dataProvider);
+        this.root = root;
+    }
+
+    createItem(): RunItem {
+        this.treeItem = new RunItem(this.config, this.record);
+        return this.treeItem;
+    }
+
+    delete(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    getLabel(): string {
+        return this.treeItem ? this.treeItem.label as string : this.record.start;
+    }
+
+    public getChildren(): Promise<ITreeNode[]> {
+        return Promise.resolve([]);
+    }
+}
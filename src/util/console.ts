@@ -13,6 +13,9 @@ class RhamtChannelImpl {
     clear() {
         this.channel.clear();
     }
+    show() {
+        this.channel.show();
+    }
 }
 
 export const rhamtChannel = new RhamtChannelImpl();
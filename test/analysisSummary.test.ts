@@ -0,0 +1,92 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { formatDuration, getRulesetVersions, getStaleReasons, hashOptions, hashRules } from '../src/server/analysisSummary';
+
+suite('Analyzer / Summary', () => {
+
+    let dir: string;
+
+    setup(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-summary-'));
+    });
+
+    teardown(async () => {
+        await fs.remove(dir);
+    });
+
+    test('hashes only the options that change the results', () => {
+        const options = { input: ['/app'], target: ['quarkus'], output: '/out', 'kai-url': 'http://a' };
+        assert.equal(hashOptions({ ...options, output: '/other', 'kai-url': 'http://b' }), hashOptions(options));
+        assert.notEqual(hashOptions({ ...options, target: ['quarkus', 'jakarta-ee'] }), hashOptions(options));
+    });
+
+    test('hashes the contents of the custom rules', async () => {
+        const rules = path.join(dir, 'rules');
+        const rule = path.join(rules, 'a.yaml');
+        await fs.outputFile(rule, '- ruleID: a');
+        await fs.utimes(rule, new Date(2024, 0, 1), new Date(2024, 0, 1));
+        const before = await hashRules([rules]);
+        assert.equal(await hashRules([rules]), before);
+        await fs.outputFile(rule, '- ruleID: b');
+        await fs.utimes(rule, new Date(2024, 0, 2), new Date(2024, 0, 2));
+        assert.notEqual(await hashRules([rules]), before);
+    });
+
+    test('reads the custom rules again only when they were modified', async () => {
+        const rules = path.join(dir, 'rules');
+        const rule = path.join(rules, 'a.yaml');
+        await fs.outputFile(rule, '- ruleID: a');
+        await fs.utimes(rule, new Date(2024, 0, 1), new Date(2024, 0, 1));
+        const before = await hashRules([rules]);
+        await fs.outputFile(rule, '- ruleID: b');
+        await fs.utimes(rule, new Date(2024, 0, 1), new Date(2024, 0, 1));
+        assert.equal(await hashRules([rules]), before);
+        await fs.outputFile(path.join(rules, 'b.yaml'), '- ruleID: c');
+        assert.notEqual(await hashRules([rules]), before);
+    });
+
+    test('reads ruleset versions from their version or labels', () => {
+        const versions = getRulesetVersions([{ rulesets: [
+            { name: 'eap8/eap7', labels: ['konveyor.io/version=7.2.0'] },
+            { name: 'custom', version: '1.0' },
+            { name: 'bundled' }
+        ] }]);
+        assert.deepEqual(versions, { 'eap8/eap7': '7.2.0', custom: '1.0', bundled: '' });
+    });
+
+    test('formats durations', () => {
+        assert.equal(formatDuration(4400), '4s');
+        assert.equal(formatDuration(134000), '2m 14s');
+        assert.equal(formatDuration(undefined), '');
+    });
+
+    test('explains why results are stale', async () => {
+        const input = path.join(dir, 'app');
+        const source = path.join(input, 'src', 'Foo.java');
+        await fs.outputFile(source, 'class Foo {}');
+        await fs.outputFile(path.join(input, 'target', 'Foo.class'), '');
+        const options = { input: [input], target: ['quarkus'] };
+        const config: any = {
+            options: { ...options },
+            summary: { executedTimestampRaw: new Date(Date.now() + 60000).toISOString(), optionsHash: hashOptions(options) }
+        };
+        assert.deepEqual(await getStaleReasons(config), []);
+
+        config.options.target = ['jakarta-ee'];
+        config.summary.executedTimestampRaw = new Date(Date.now() - 60000).toISOString();
+        assert.deepEqual(await getStaleReasons(config), [
+            'The configuration changed since the analysis.',
+            `Sources changed since the analysis, such as ${source}.`
+        ]);
+
+        config.options.target = ['quarkus'];
+        config.summary.reanalyzedFiles = { [source]: new Date(Date.now() + 60000).toISOString() };
+        assert.deepEqual(await getStaleReasons(config), []);
+    });
+});
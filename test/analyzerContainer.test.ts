@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as path from 'path';
+import { createContainerCommand, getScopedInputs, isContainerMode, toLocalPath, toScopedInputPath } from '../src/server/analyzerContainer';
+
+suite('Analyzer / Container', () => {
+
+    const params = ['analyze', '--input', '/work/app', '/work/lib', '--output', '/work/out', '--mode', 'source-only',
+        '--target', 'quarkus', '--rules', '/work/rules/custom', '--rules', '/work/more.yaml'];
+
+    test('runs the configured image with the inputs, output and rules mounted', () => {
+        const command = createContainerCommand({ 'execution-mode': 'container', 'container-tag': 'v0.5.0' }, params);
+        assert.equal(command.executable, 'podman');
+        assert.deepEqual(command.args, [
+            'run', '--rm',
+            '-v', '/work/app:/opt/input/source:Z',
+            '-v', '/work/lib:/opt/input/source-1:Z',
+            '-v', '/work/out:/opt/output:Z',
+            '-v', '/work/rules/custom:/opt/rules/0/custom:Z',
+            '-v', '/work/more.yaml:/opt/rules/1/more.yaml:Z',
+            'quay.io/konveyor/kantra:v0.5.0',
+            'analyze', '--input', '/opt/input/source', '/opt/input/source-1', '--output', '/opt/output', '--mode', 'source-only',
+            '--target', 'quarkus', '--rules', '/opt/rules/0/custom', '--rules', '/opt/rules/1/more.yaml'
+        ]);
+    });
+
+    test('mounts without relabeling with docker', () => {
+        const command = createContainerCommand({ 'container-engine': 'docker', 'container-image': 'example.com/analyzer' }, ['--output', '/work/out']);
+        assert.deepEqual(command, { executable: 'docker', args: ['run', '--rm', '-v', '/work/out:/opt/output', 'example.com/analyzer:latest', '--output', '/opt/output'] });
+    });
+
+    test('maps reported files back to the inputs', () => {
+        const inputs = ['/work/app', '/work/lib'];
+        assert.equal(toLocalPath('file:///opt/input/source/src/Foo.java', inputs), path.join('/work/app', 'src', 'Foo.java'));
+        assert.equal(toLocalPath('file:///opt/input/source-1/Bar.java', inputs), path.join('/work/lib', 'Bar.java'));
+        assert.equal(toLocalPath('file:///root/.m2/repository/Baz.java', inputs), undefined);
+    });
+
+    test('maps the files of a scoped analysis of an input in a subfolder of the workspace back to the input', () => {
+        const inputs = ['/work/app/service', '/work/lib'];
+        const scopedInputs = getScopedInputs(inputs, '/tmp/scoped/input');
+        const file = path.join('/work/app/service', 'src', 'Foo.java');
+        assert.equal(toScopedInputPath(file, inputs, scopedInputs), path.join('/tmp/scoped/input', 'src', 'Foo.java'));
+        assert.equal(toScopedInputPath(path.join('/work/lib', 'Bar.java'), inputs, scopedInputs), path.join('/tmp/scoped/input-1', 'Bar.java'));
+        assert.equal(toScopedInputPath(path.join('/work/app', 'pom.xml'), inputs, scopedInputs), undefined);
+
+        const command = createContainerCommand({ 'execution-mode': 'container' }, ['--input', ...scopedInputs]);
+        assert.deepEqual(command.args.slice(2, 6), ['-v', '/tmp/scoped/input:/opt/input/source:Z', '-v', '/tmp/scoped/input-1:/opt/input/source-1:Z']);
+        assert.equal(toLocalPath('file:///opt/input/source/src/Foo.java', inputs), file);
+    });
+
+    test('runs locally by default', () => {
+        assert.equal(isContainerMode({}), false);
+        assert.equal(isContainerMode({ 'execution-mode': 'container' }), true);
+    });
+});
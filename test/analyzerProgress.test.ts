@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalyzerProgress, AnalyzerProgressMonitor } from '../src/server/analyzerProgressMonitor';
+
+suite('Analyzer / Progress', () => {
+
+    function monitor(): { monitor: AnalyzerProgressMonitor, reports: AnalyzerProgress[], completed: () => number } {
+        const reports: AnalyzerProgress[] = [];
+        let completions = 0;
+        return {
+            monitor: new AnalyzerProgressMonitor(() => completions++, progress => reports.push(progress)),
+            reports,
+            completed: () => completions
+        };
+    }
+
+    function readLog(name: string): string {
+        return fs.readFileSync(path.join(__dirname, '..', '..', 'test', 'analyzer-logs', `${name}.log`), 'utf8');
+    }
+
+    test('follows the phases of a kantra log', () => {
+        const { monitor: progress, reports, completed } = monitor();
+        progress.handleMessage(readLog('kantra-container'));
+        assert.deepEqual(reports.map(report => report.label), [
+            'Starting providers',
+            'Resolving dependencies',
+            'Evaluating rules',
+            'Evaluating rules (1/4)',
+            'Evaluating rules (2/4)',
+            'Evaluating rules (3/4)',
+            'Evaluating rules (4/4)',
+            'Generating report'
+        ]);
+        assert.deepEqual(reports.map(report => report.percent), [0, 10, 25, 41, 58, 74, 90, 90]);
+        assert.equal(completed(), 1);
+        assert.equal(progress.isDone(), true);
+    });
+
+    test('completes only once the static report is generated', () => {
+        const { monitor: progress, reports, completed } = monitor();
+        progress.handleMessage('time="10:00:44" level=info msg="writing analysis results to output" output=/work/out/output.yaml');
+        assert.equal(reports[0].phase, 'report');
+        assert.equal(completed(), 0);
+        progress.handleMessage('time="10:00:45" level=info msg="generating static report" output=/work/out\n'
+            + 'time="10:00:46" level=info msg="Static report created. Access it at this URL:" URL="file:///work/out/static-report/index.html"');
+        assert.equal(completed(), 1);
+    });
+
+    test('ignores phases, counts and dates outside the message', () => {
+        const { monitor: progress, reports } = monitor();
+        progress.handleMessage('time="2024-05-14T10:00:31+02:00" level=info msg="evaluating rules for violations. see analysis.log for more info"');
+        progress.handleMessage('time="2024-05-14T10:00:32+02:00" level=warning msg="unable to resolve 3/7 dependencies" file=/work/app/pom.xml');
+        progress.handleMessage('time="2024-05-14T10:00:33+02:00" level=info msg="provider java stopped" args="--rules=/work/generating static report/12 of 40"');
+        progress.handleMessage('Downloaded 12/40 artifacts from 2024/05/14');
+        assert.equal(reports.length, 1);
+        assert.equal(reports[0].label, 'Evaluating rules');
+    });
+
+    test('counts rule responses without a total', () => {
+        const { monitor: progress, reports } = monitor();
+        progress.handleMessage('INFO[0031] evaluating rules for violations. see analysis.log for more info');
+        progress.handleMessage('time="10:00:32" level=info msg="rule response received" ruleID=a');
+        progress.handleMessage('time="10:00:33" level=info msg="rule response received" ruleID=b');
+        assert.equal(reports[reports.length - 1].label, 'Evaluating rules (2)');
+        assert.ok(reports.every(report => report.phase === 'rules'));
+    });
+});
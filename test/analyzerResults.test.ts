@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { IHint, RhamtConfiguration } from '../src/server/analyzerModel';
+import { AnalyzerResults } from '../src/server/analyzerResults';
+
+suite('Analyzer / Results', () => {
+
+    let dir: string;
+    let input: string;
+
+    setup(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-results-'));
+        input = path.join(dir, 'app');
+    });
+
+    teardown(async () => {
+        await fs.remove(dir);
+    });
+
+    // in container mode the incidents map to the input without a workspace folder
+    function createConfig(): RhamtConfiguration {
+        const config = new RhamtConfiguration();
+        config.id = 'config';
+        config.options = { 'execution-mode': 'container', input: [input], output: path.join(dir, 'output') };
+        return config;
+    }
+
+    function incident(file: string, lineNumber: number, codeSnip: string): any {
+        return { uri: `file:///opt/input/source/${file}`, message: `Replace ${codeSnip}`, lineNumber, codeSnip };
+    }
+
+    function createResults(violations: { [rule: string]: any[] }): any {
+        const json = { name: 'eap8', violations: {} };
+        Object.keys(violations).forEach(rule => json.violations[rule] = { category: 'mandatory', incidents: violations[rule] });
+        return [{ rulesets: [json] }];
+    }
+
+    async function load(config: RhamtConfiguration, jsonResults: any): Promise<AnalyzerResults> {
+        const results = new AnalyzerResults(jsonResults, config);
+        await results.init();
+        config.results = results;
+        return results;
+    }
+
+    function findHint(results: AnalyzerResults, ruleId: string): IHint {
+        return results.model.hints.find(hint => hint.ruleId === ruleId);
+    }
+
+    test('replaces the incidents of re-analyzed files and keeps those of other files', async () => {
+        const results = await load(createConfig(), createResults({
+            'rule-a': [incident('Foo.java', 3, 'a();'), incident('Bar.java', 2, 'a();')],
+            'rule-b': [incident('Foo.java', 7, 'b();')]
+        }));
+        const scoped = createResults({
+            'rule-a': [incident('Foo.java', 3, 'a();'), incident('Other.java', 1, 'a();')],
+            'rule-c': [incident('Foo.java', 9, 'c();')]
+        });
+        scoped[0].rulesets.push({ name: 'custom', violations: { 'rule-d': { category: 'optional', incidents: [incident('Foo.java', 4, 'd();')] } } });
+        const foo = path.join(input, 'Foo.java');
+        const bar = path.join(input, 'Bar.java');
+
+        results.mergeFileResults([foo], scoped);
+        const rules = (file: string) => results.model.hints.filter(hint => hint.file === file).map(hint => hint.ruleId).sort();
+        assert.deepEqual(rules(foo), ['rule-a', 'rule-c', 'rule-d']);
+        assert.deepEqual(rules(bar), ['rule-a']);
+        assert.deepEqual(rules(path.join(input, 'Other.java')), []);
+        assert.equal(results.model.issueByFile.get(foo).length, 3);
+        const violations = results.jsonResults[0].rulesets[0].violations;
+        assert.deepEqual(violations['rule-a'].incidents.map(found => found.uri).sort(),
+            ['file:///opt/input/source/Bar.java', 'file:///opt/input/source/Foo.java']);
+        assert.deepEqual(violations['rule-b'].incidents, []);
+        assert.deepEqual(results.jsonResults[0].rulesets.map(ruleset => ruleset.name), ['eap8', 'custom']);
+    });
+
+    test('keeps the state of incidents when the results are loaded again', async () => {
+        const config = createConfig();
+        const results = await load(config, createResults({
+            'rule-a': [incident('Foo.java', 3, 'a();')],
+            'rule-b': [incident('Foo.java', 5, 'b();')],
+            'rule-c': [incident('Foo.java', 7, 'c();')]
+        }));
+        results.markIssueAsComplete(findHint(results, 'rule-a'), true);
+        results.deleteIssue(findHint(results, 'rule-b'));
+        await results.saveState();
+
+        // a new analysis after lines were added above the incidents
+        const reloaded = await load(config, createResults({
+            'rule-a': [incident('Foo.java', 5, 'a();')],
+            'rule-b': [incident('Foo.java', 7, 'b();')],
+            'rule-c': [incident('Foo.java', 9, 'c();')]
+        }));
+        assert.equal(findHint(reloaded, 'rule-a').complete, true);
+        assert.equal(findHint(reloaded, 'rule-b'), undefined);
+        assert.equal(findHint(reloaded, 'rule-c').complete, false);
+        await reloaded.saveState();
+        const state = await AnalyzerResults.readState(config);
+        assert.deepEqual(Object.keys(state.incidents).map(fingerprint => state.incidents[fingerprint].lineNumber).sort(), [5, 7]);
+    });
+
+    test('ignores incident state of an unknown version', async () => {
+        const config = createConfig();
+        await AnalyzerResults.writeState(config, { version: 0, incidents: {} });
+        assert.equal(await AnalyzerResults.readState(config), undefined);
+    });
+
+    test('keeps incidents the user completed and reopens those Kai resolved when a re-analysis finds them again', async () => {
+        const violations = () => createResults({
+            'rule-a': [incident('Foo.java', 3, 'a();')],
+            'rule-b': [incident('Foo.java', 5, 'b();')]
+        });
+        const results = await load(createConfig(), violations());
+        results.markIssueAsComplete(findHint(results, 'rule-a'), true);
+        results.markIssueAsComplete(findHint(results, 'rule-b'), true, 'kai');
+
+        results.mergeFileResults([path.join(input, 'Foo.java')], violations());
+        assert.equal(findHint(results, 'rule-a').complete, true);
+        assert.equal(findHint(results, 'rule-b').complete, false);
+    });
+});
@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RhamtConfiguration } from '../src/server/analyzerModel';
+import { AnalyzerRunLog, RUNS_FOLDER } from '../src/server/analyzerRunLog';
+
+suite('Analyzer / Run log', () => {
+
+    let dir: string;
+    let config: RhamtConfiguration;
+    let runsDir: string;
+
+    setup(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-runs-'));
+        config = new RhamtConfiguration();
+        // the id names the staging folder of the runs
+        config.id = path.basename(dir);
+        config.options = { output: path.join(dir, 'output'), target: ['quarkus'] };
+        runsDir = path.join(dir, 'output', RUNS_FOLDER);
+    });
+
+    teardown(async () => {
+        await fs.remove(dir);
+    });
+
+    async function writeEarlierRuns(count: number): Promise<string[]> {
+        const ids: string[] = [];
+        for (let index = 0; index < count; index++) {
+            const start = new Date(Date.UTC(2024, 0, 1, 0, 0, index)).toISOString();
+            const id = start.replace(/[:.]/g, '-');
+            await fs.outputFile(path.join(runsDir, `${id}.json`), JSON.stringify({ id, start, status: 'completed' }));
+            await fs.outputFile(path.join(runsDir, `${id}.log`), `run ${index}\n`);
+            ids.push(id);
+        }
+        return ids;
+    }
+
+    test('records the command line, environment, outcome and log of a run', async () => {
+        process.env.MTA_RUN_LOG_TEST_SECRET = 'secret';
+        try {
+            const run = await AnalyzerRunLog.start(config, 'kantra', ['analyze', '--input', '/work/my app']);
+            run.append('starting provider');
+            run.append('generating static report\n');
+            await run.finish('completed', 0);
+        }
+        finally {
+            delete process.env.MTA_RUN_LOG_TEST_SECRET;
+        }
+        const [record] = await AnalyzerRunLog.list(config);
+        assert.equal(record.commandLine, 'kantra analyze --input "/work/my app"');
+        assert.equal(record.status, 'completed');
+        assert.equal(record.exitCode, 0);
+        assert.deepEqual(record.options, config.options);
+        assert.equal(record.environment['MTA_RUN_LOG_TEST_SECRET'], undefined);
+        assert.ok(record.durationMs >= 0);
+        assert.equal(await fs.readFile(AnalyzerRunLog.getLogLocation(config, record), 'utf8'), 'starting provider\ngenerating static report\n');
+    });
+
+    test('keeps the outcome of the first finish', async () => {
+        const run = await AnalyzerRunLog.start(config, 'kantra', ['analyze']);
+        const finished = run.finish('cancelled', null, 'SIGTERM');
+        assert.equal(run.finish('failed', 1), finished);
+        await finished;
+        const records = await AnalyzerRunLog.list(config);
+        assert.equal(records.length, 1);
+        assert.equal(records[0].status, 'cancelled');
+        assert.equal(records[0].signal, 'SIGTERM');
+    });
+
+    test('keeps the earlier runs when the analyzer clears the output location', async () => {
+        await writeEarlierRuns(2);
+        const run = await AnalyzerRunLog.start(config, 'kantra', ['analyze']);
+        await fs.remove(path.join(dir, 'output'));
+        await run.finish('completed', 0);
+        assert.equal((await AnalyzerRunLog.list(config)).length, 3);
+    });
+
+    test('lists the runs most recent first and keeps only the last 20', async () => {
+        const earlier = await writeEarlierRuns(21);
+        const run = await AnalyzerRunLog.start(config, 'kantra', ['analyze']);
+        await run.finish('failed', 1);
+        const records = await AnalyzerRunLog.list(config);
+        assert.equal(records.length, 20);
+        assert.equal(records[0].id, run.record.id);
+        assert.equal(records[records.length - 1].id, earlier[2]);
+        assert.equal(await fs.pathExists(path.join(runsDir, `${earlier[1]}.log`)), false);
+        assert.equal(await fs.pathExists(path.join(runsDir, `${earlier[2]}.log`)), true);
+    });
+
+    test('skips records that cannot be read', async () => {
+        const [id] = await writeEarlierRuns(1);
+        await fs.outputFile(path.join(runsDir, 'broken.json'), '{');
+        assert.deepEqual((await AnalyzerRunLog.list(config)).map(record => record.id), [id]);
+    });
+
+    test('lists no runs for a configuration without output location', async () => {
+        config.options = {};
+        assert.deepEqual(await AnalyzerRunLog.list(config), []);
+    });
+});
@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import { AnalysisFailedError, AnalyzerRunner, AnalyzerStream } from '../src/server/analyzerRunner';
+
+suite('Analyzer / Runner', () => {
+
+    function run(script: string): Promise<{ lines: [string, AnalyzerStream][], exitCode: number | null, signal: string | null }> {
+        const lines: [string, AnalyzerStream][] = [];
+        return new Promise(resolve => {
+            AnalyzerRunner.run(process.execPath, ['-e', script], 10000, (line, stream) => lines.push([line, stream]), (exitCode, signal) => {
+                resolve({ lines, exitCode, signal });
+            }).catch(() => undefined);
+        });
+    }
+
+    test('captures stderr and the exit code', async () => {
+        const result = await run('console.log("starting"); setTimeout(() => { console.error("fatal: no providers"); process.exit(3); }, 50);');
+        assert.deepEqual(result.lines, [['starting', 'stdout'], ['fatal: no providers', 'stderr']]);
+        assert.equal(result.exitCode, 3);
+    });
+
+    test('starts on output to stderr alone', async () => {
+        const result = await run('console.error("level=info msg=\\"starting provider\\"");');
+        assert.deepEqual(result.lines, [['level=info msg="starting provider"', 'stderr']]);
+        assert.equal(result.exitCode, 0);
+    });
+
+    test('describes how the analyzer ended', () => {
+        assert.equal(new AnalysisFailedError(1, null, []).message, 'Analysis failed, the analyzer exited with code 1');
+        assert.equal(new AnalysisFailedError(null, 'SIGKILL', []).message, 'Analysis failed, the analyzer was terminated by SIGKILL');
+        assert.ok(new AnalysisFailedError(undefined, undefined, ['spawn kantra ENOENT']) instanceof Error);
+    });
+});
@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import { createIncidentId, disambiguateIncidentIds, matchIncidents, normalizeSnippet } from '../src/server/incidentIdentity';
+
+suite('Analyzer / Incident identity', () => {
+
+    const snippet = ' 3  import javax.ejb.Stateless;\n 4  \n 5  @Stateless\n';
+    const shifted = '13  import javax.ejb.Stateless;\n14  \n15  @Stateless\n';
+
+    test('ignores line numbers and indentation of snippets', () => {
+        assert.equal(normalizeSnippet(snippet), 'import javax.ejb.Stateless;\n@Stateless');
+        assert.equal(normalizeSnippet(shifted), normalizeSnippet(snippet));
+        assert.equal(normalizeSnippet('  int x = 1;\r\n10 + 2;'), 'int x = 1;\n10 + 2;');
+    });
+
+    test('derives the same id for an incident that moved', () => {
+        const id = createIncidentId('eap8/eap7', 'javax-to-jakarta-import-00001', 'src/main/java/Foo.java', snippet);
+        assert.equal(createIncidentId('eap8/eap7', 'javax-to-jakarta-import-00001', 'src/main/java/Foo.java', shifted), id);
+        assert.notEqual(createIncidentId('eap8/eap7', 'javax-to-jakarta-import-00001', 'src/main/java/Bar.java', snippet), id);
+        assert.notEqual(createIncidentId('eap8/eap7', 'javax-to-jakarta-import-00002', 'src/main/java/Foo.java', snippet), id);
+        assert.ok(/^[0-9a-f]{16}$/.test(id));
+    });
+
+    test('suffixes duplicate ids in line order', () => {
+        const incidents = [{ id: 'a', lineNumber: 20 }, { id: 'b', lineNumber: 5 }, { id: 'a', lineNumber: 10 }];
+        disambiguateIncidentIds(incidents);
+        assert.deepEqual(incidents.map(incident => incident.id), ['a-2', 'b', 'a']);
+    });
+
+    test('matches incidents whose line shifted to the closest one', () => {
+        const previous = [{ id: 'a', lineNumber: 10 }, { id: 'a-2', lineNumber: 30 }, { id: 'b', lineNumber: 40 }];
+        const current = [{ id: 'a', lineNumber: 14 }, { id: 'a-2', lineNumber: 34 }, { id: 'b', lineNumber: 40 }, { id: 'c', lineNumber: 1 }];
+        const matches = matchIncidents(previous, current);
+        assert.equal(matches.get(current[0]), previous[0]);
+        assert.equal(matches.get(current[1]), previous[1]);
+        assert.equal(matches.get(current[2]), previous[2]);
+        assert.equal(matches.has(current[3]), false);
+    });
+
+    test('matches an incident to the closest one when its duplicate is gone', () => {
+        const previous = [{ id: 'a', lineNumber: 10 }, { id: 'a-2', lineNumber: 30 }];
+        const current = [{ id: 'a', lineNumber: 28 }];
+        const matches = matchIncidents(previous, current);
+        assert.equal(matches.get(current[0]), previous[1]);
+    });
+});
@@ -0,0 +1,293 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { IHint } from '../src/server/analyzerModel';
+import { createFileSolutionRequest, createIncidentSolutionRequest, formatHintsToIncidents, KaiCancelledError, KaiClient,
+    KaiRequestError, KaiResponseError, KaiTimeoutError, validateFileSolutionResponse, validateIncidentSolutionResponse } from '../src/kaiFix/kaiClient';
+import { KaiFixtureMissingError } from '../src/kaiFix/kaiReplay';
+import { AbortController } from 'abort-controller';
+
+suite('Kai / Client', () => {
+
+    let server: http.Server;
+    let received: { url: string, headers: http.IncomingHttpHeaders, body: any }[];
+    let reply: { status: number, body: any, delay?: number, contentType?: string, chunks?: string[], keepOpen?: boolean };
+    let client: KaiClient;
+    let closed: Promise<void>;
+
+    setup(done => {
+        received = [];
+        reply = { status: 200, body: {} };
+        server = http.createServer((req, res) => {
+            let data = '';
+            closed = new Promise(resolve => res.on('close', () => resolve()));
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => {
+                received.push({ url: req.url, headers: req.headers, body: data ? JSON.parse(data) : undefined });
+                setTimeout(() => {
+                    res.statusCode = reply.status;
+                    res.setHeader('Content-Type', reply.contentType || 'application/json');
+                    if (reply.chunks) {
+                        reply.chunks.forEach(chunk => res.write(chunk));
+                        if (!reply.keepOpen) {
+                            res.end();
+                        }
+                        return;
+                    }
+                    res.end(typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body));
+                }, reply.delay || 0);
+            });
+        });
+        server.listen(0, '127.0.0.1', () => {
+            const port = server.address().port;
+            client = new KaiClient({ url: `http://127.0.0.1:${port}/kai/`, headers: { 'X-Kai-Token': 'secret' }, timeout: 5000 });
+            done();
+        });
+    });
+
+    teardown(done => {
+        server.close(() => done());
+    });
+
+    test('maps hints to incidents', () => {
+        const incidents = formatHintsToIncidents([createHint(12), createHint(30, null)]);
+        assert.deepEqual(incidents[0], {
+            violation_name: 'jakarta-package-00000',
+            ruleset_name: 'quarkus/springboot',
+            incident_variables: { file: 'file.java', kind: 'Class', name: 'javax.ejb.Stateless', package: 'javax.ejb' },
+            line_number: 12,
+            analysis_message: 'Replace javax with jakarta'
+        });
+        assert.deepEqual(incidents[1].incident_variables, { file: '', kind: '', name: '', package: '' });
+    });
+
+    test('maps a hint to an incident solution request', () => {
+        const request = createIncidentSolutionRequest(createHint(12), 'coolstore', 'src/Foo.java', 'class Foo {}');
+        assert.equal(request.application_name, 'coolstore');
+        assert.equal(request.incident_snip, 'import javax.ejb.Stateless;');
+        assert.equal(request.file_name, 'src/Foo.java');
+        assert.equal(request.file_contents, 'class Foo {}');
+        assert.equal(request.line_number, 12);
+    });
+
+    test('posts file solution requests under the endpoint path prefix', async () => {
+        reply.body = {
+            updated_file: 'class Foo {}',
+            total_reasoning: ['reasoning'],
+            used_prompts: ['prompt'],
+            model_id: 'model',
+            additional_information: [],
+            llm_results: null
+        };
+        const request = createFileSolutionRequest([createHint(12)], 'coolstore', 'src/Foo.java', 'class Foo {}');
+        const response = await client.getIncidentSolutionsForFile(request);
+        assert.equal(response.updated_file, 'class Foo {}');
+        assert.equal(received.length, 1);
+        assert.equal(received[0].url, '/kai/get_incident_solutions_for_file');
+        assert.equal(received[0].headers['x-kai-token'], 'secret');
+        assert.deepEqual(received[0].body, request);
+    });
+
+    test('reports every schema violation at once', async () => {
+        reply.body = { updated_file: 42, used_prompts: [1], model_id: 'model' };
+        try {
+            await client.getIncidentSolutionsForFile(createFileSolutionRequest([], 'coolstore', 'src/Foo.java', ''));
+            assert.fail('expected a response error');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiResponseError);
+            assert.deepEqual(e.violations, [
+                'property "updated_file" must be a string but was number',
+                'missing property "total_reasoning"',
+                'property "used_prompts[0]" must be a string but was number',
+                'missing property "additional_information"'
+            ]);
+        }
+    });
+
+    test('rejects non-object responses', () => {
+        assert.deepEqual(validateFileSolutionResponse([]), ['response is not a JSON object']);
+    });
+
+    test('sends related files and validates the changes proposed to them', () => {
+        const request = createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', 'class Foo {}',
+            [{ file_name: 'src/Bar.java', file_contents: 'class Bar {}' }]);
+        assert.deepEqual(request.related_files, [{ file_name: 'src/Bar.java', file_contents: 'class Bar {}' }]);
+        assert.equal('related_files' in createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', '', []), false);
+        assert.deepEqual(validateIncidentSolutionResponse({ llm_output: '', updated_related_files: [{ file_name: 'src/Bar.java', updated_file: '' }] }), []);
+        assert.deepEqual(validateIncidentSolutionResponse({ llm_output: '', updated_related_files: [{ file_name: 'src/Bar.java' }] }), [
+            'entry 0 of "updated_related_files" must have string properties "file_name" and "updated_file"'
+        ]);
+    });
+
+    test('rejects an empty updated file', () => {
+        const violations = validateFileSolutionResponse({
+            updated_file: '  \n', total_reasoning: '', used_prompts: '', model_id: 'model', additional_information: ''
+        });
+        assert.deepEqual(violations, ['"updated_file" is empty']);
+    });
+
+    test('surfaces http errors', async () => {
+        reply = { status: 500, body: 'boom' };
+        try {
+            await client.getIncidentSolution(createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', ''));
+            assert.fail('expected a request error');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiRequestError);
+            assert.equal(e.status, 500);
+            assert.equal(e.body, 'boom');
+        }
+    });
+
+    test('aborts a request when its signal fires', async () => {
+        reply = { status: 200, body: { llm_output: '' }, delay: 500 };
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+        try {
+            await client.getIncidentSolution(createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', ''), controller.signal);
+            assert.fail('expected the request to be cancelled');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiCancelledError);
+        }
+    });
+
+    test('times out slow requests', async () => {
+        reply = { status: 200, body: { llm_output: '' }, delay: 500 };
+        const slowClient = new KaiClient({ ...client.endpoint, timeout: 50 });
+        try {
+            await slowClient.getIncidentSolution(createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', ''));
+            assert.fail('expected the request to time out');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiTimeoutError);
+            assert.equal(e.timeout, 50);
+        }
+    });
+
+    test('streams server-sent events', async () => {
+        reply = { status: 200, body: undefined, contentType: 'text/event-stream', chunks: [
+            ': keep-alive\n\n',
+            'data: {"delta": "## Reasoning\\n"}\n\n',
+            'data: {"delta": "## Upd',
+            'ated File"}\n\ndata: [DONE]\n\n'
+        ]};
+        const deltas = [];
+        const request = createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', '');
+        const response = await client.streamIncidentSolution(request, text => deltas.push(text));
+        assert.deepEqual(deltas, ['## Reasoning\n', '## Updated File']);
+        assert.equal(response.llm_output, '## Reasoning\n## Updated File');
+        assert.ok(String(received[0].headers['accept']).startsWith('text/event-stream'));
+    });
+
+    test('streams newline-delimited json and prefers the final output', async () => {
+        reply = { status: 200, body: undefined, contentType: 'application/x-ndjson', chunks: [
+            '{"delta": "partial"}\n\n{"llm_output": "com',
+            'plete"}'
+        ]};
+        const deltas = [];
+        const request = createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', '');
+        const response = await client.streamIncidentSolution(request, text => deltas.push(text));
+        assert.deepEqual(deltas, ['partial']);
+        assert.equal(response.llm_output, 'complete');
+    });
+
+    test('falls back to buffered responses when the server does not stream', async () => {
+        reply.body = { llm_output: 'buffered' };
+        const deltas = [];
+        const request = createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', '');
+        const response = await client.streamIncidentSolution(request, text => deltas.push(text));
+        assert.deepEqual(deltas, []);
+        assert.equal(response.llm_output, 'buffered');
+    });
+
+    test('surfaces errors reported inside a stream', async () => {
+        reply = { status: 200, body: undefined, contentType: 'application/x-ndjson', chunks: ['{"delta": "a"}\n{"error": "model overloaded"}\n'] };
+        try {
+            await client.streamIncidentSolution(createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', ''), () => undefined);
+            assert.fail('expected a response error');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiResponseError);
+            assert.deepEqual(e.violations, ['server reported an error: model overloaded']);
+        }
+    });
+
+    test('closes the connection of a stream that fails to parse', async () => {
+        reply = { status: 200, body: undefined, contentType: 'application/x-ndjson', chunks: ['{"delta": "a"}\n{not json\n'], keepOpen: true };
+        try {
+            await client.streamIncidentSolution(createIncidentSolutionRequest(createHint(1), 'coolstore', 'src/Foo.java', ''), () => undefined);
+            assert.fail('expected a response error');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiResponseError);
+        }
+        // the server never ends the response, so only the client can have closed it
+        await closed;
+    });
+
+    test('records responses and replays them without contacting the server', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'kai-fixtures-'));
+        const endpoint = client.endpoint;
+        reply.body = { llm_output: 'recorded' };
+        const recorder = new KaiClient({ ...endpoint, replay: { mode: 'record', directory } });
+        await recorder.getIncidentSolution(createIncidentSolutionRequest(createHint(3), 'coolstore', 'src/Foo.java', 'class Foo {}'));
+
+        reply = { status: 500, body: 'should not be called' };
+        const player = new KaiClient({ ...endpoint, replay: { mode: 'replay', directory } });
+        const edited = createIncidentSolutionRequest(createHint(3), 'other-app', 'src/Foo.java', 'class Foo { int x; }');
+        const response = await player.streamIncidentSolution(edited, () => undefined);
+        assert.equal(response.llm_output, 'recorded');
+        assert.equal(received.length, 1);
+
+        try {
+            await player.getIncidentSolution(createIncidentSolutionRequest(createHint(4), 'coolstore', 'src/Foo.java', ''));
+            assert.fail('expected a missing fixture');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiFixtureMissingError);
+            assert.ok(e.location.startsWith(path.join(directory, 'get_incident_solution')));
+        }
+    });
+
+    test('posts fix outcomes to the feedback route and accepts an empty answer', async () => {
+        reply = { status: 204, body: '' };
+        await client.reportFixOutcome('report_fix_outcome', {
+            outcome: 'edited', application_name: 'coolstore', file_name: 'src/Foo.java', incident_ids: ['1'], rule_ids: ['jakarta-package-00000'],
+            diff: '--- a/src/Foo.java\n+++ b/src/Foo.java\n', timestamp: '2024-01-01T00:00:00.000Z'
+        });
+        assert.equal(received[0].url, '/kai/report_fix_outcome');
+        assert.equal(received[0].body.outcome, 'edited');
+    });
+
+    test('reports the health of the backend', async () => {
+        reply.body = { status: 'ok' };
+        assert.deepEqual(await client.checkHealth('health', 1000), { state: 'connected' });
+        reply.body = { status: 'starting' };
+        assert.deepEqual(await client.checkHealth('health', 1000), { state: 'degraded', detail: 'server reports status "starting"' });
+        reply = { status: 503, body: 'model unavailable' };
+        assert.deepEqual(await client.checkHealth('health', 1000), { state: 'degraded', detail: 'HTTP 503: model unavailable' });
+        reply = { status: 200, body: {}, delay: 200 };
+        assert.deepEqual(await client.checkHealth('health', 20), { state: 'unreachable', detail: 'no answer within 20ms' });
+    });
+
+    function createHint(lineNumber: number, variables: any = {
+        file: 'file.java', kind: 'Class', name: 'javax.ejb.Stateless', package: 'javax.ejb'
+    }): IHint {
+        return {
+            ruleId: 'jakarta-package-00000',
+            rulesetName: 'quarkus/springboot',
+            lineNumber,
+            hint: 'Replace javax with jakarta',
+            sourceSnippet: 'import javax.ejb.Stateless;',
+            variables
+        } as any;
+    }
+});
@@ -0,0 +1,88 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import { applyHunks, computeHunks, formatPatch, getHunkRange, hasMergeMarkers, mergeHunks, relocateHunks, splitLines } from '../src/kaiFix/kaiDiff';
+
+suite('Kai / Diff', () => {
+
+    const original = 'package a;\nimport javax.ejb.Stateless;\n\n@Stateless\nclass Foo {\n}\n';
+    const proposed = 'package a;\nimport jakarta.ejb.Stateless;\n\n@Stateless\nclass Foo {\n    int bar;\n}\n';
+
+    test('splits lines keeping terminators', () => {
+        assert.deepEqual(splitLines('a\r\nb\nc'), ['a\r\n', 'b\n', 'c']);
+        assert.deepEqual(splitLines('a\n'), ['a\n']);
+        assert.deepEqual(splitLines(''), []);
+    });
+
+    test('computes separate hunks for separate changes', () => {
+        const hunks = computeHunks(original, proposed);
+        assert.equal(hunks.length, 2);
+        assert.deepEqual(hunks[0], {
+            originalStart: 1,
+            originalLines: ['import javax.ejb.Stateless;\n'],
+            proposedStart: 1,
+            proposedLines: ['import jakarta.ejb.Stateless;\n']
+        });
+        assert.deepEqual(hunks[1], { originalStart: 5, originalLines: [], proposedStart: 5, proposedLines: ['    int bar;\n'] });
+    });
+
+    test('applies all hunks to reproduce the proposal', () => {
+        assert.equal(applyHunks(original, computeHunks(original, proposed)), proposed);
+        assert.equal(applyHunks('a\nb\nc', computeHunks('a\nb\nc', 'x\nc\ny')), 'x\nc\ny');
+        assert.equal(applyHunks('', computeHunks('', 'new\n')), 'new\n');
+    });
+
+    test('applies only the selected hunks', () => {
+        const hunks = computeHunks(original, proposed);
+        assert.equal(applyHunks(original, [hunks[1]]), original.replace('class Foo {\n', 'class Foo {\n    int bar;\n'));
+    });
+
+    test('ignores line ending differences and keeps the original line ending', () => {
+        const crlf = original.replace(/\n/g, '\r\n');
+        const hunks = computeHunks(crlf, proposed);
+        assert.equal(hunks.length, 2);
+        assert.deepEqual(getHunkRange(crlf, hunks[0]), { start: 12, end: 41 });
+        assert.equal(applyHunks(crlf, hunks, '\r\n'), proposed.replace(/\n/g, '\r\n'));
+    });
+
+    test('merges changes made to the file after the proposal was generated', () => {
+        const current = original.replace('package a;', 'package b;');
+        const result = mergeHunks(original, current, computeHunks(original, proposed));
+        assert.equal(result.conflicts, 0);
+        assert.equal(result.text, proposed.replace('package a;', 'package b;'));
+    });
+
+    test('takes identical changes once', () => {
+        const result = mergeHunks(original, proposed, computeHunks(original, proposed));
+        assert.deepEqual(result, { text: proposed, conflicts: 0 });
+    });
+
+    test('marks conflicting changes', () => {
+        const current = original.replace('javax.ejb.Stateless', 'javax.ejb.Singleton');
+        const result = mergeHunks(original, current, computeHunks(original, proposed));
+        assert.equal(result.conflicts, 1);
+        assert.equal(result.text, 'package a;\n' +
+            '<<<<<<< Current\nimport javax.ejb.Singleton;\n=======\nimport jakarta.ejb.Stateless;\n>>>>>>> Kai\n' +
+            '\n@Stateless\nclass Foo {\n    int bar;\n}\n');
+        assert.ok(hasMergeMarkers(result.text));
+        assert.ok(!hasMergeMarkers(current));
+    });
+
+    test('relocates a reverse patch after lines were added above it', () => {
+        const reverse = computeHunks(proposed, original);
+        const current = '// header\n' + proposed;
+        const relocated = relocateHunks(current, reverse);
+        assert.deepEqual(relocated.map(hunk => hunk.originalStart), [2, 6]);
+        assert.equal(applyHunks(current, relocated), '// header\n' + original);
+        assert.equal(relocateHunks(current.replace('jakarta', 'other'), reverse), undefined);
+    });
+
+    test('formats hunks as a unified diff', () => {
+        assert.equal(formatPatch(computeHunks(original, proposed), 'a/Foo.java', 'b/Foo.java'),
+            '--- a/Foo.java\n+++ b/Foo.java\n' +
+            '@@ -2,1 +2,1 @@\n-import javax.ejb.Stateless;\n+import jakarta.ejb.Stateless;\n' +
+            '@@ -5,0 +6,1 @@\n+    int bar;\n');
+    });
+});
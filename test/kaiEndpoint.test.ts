@@ -0,0 +1,54 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import { DEFAULT_KAI_TIMEOUT, getKaiRequestUrl, resolveKaiEndpoint } from '../src/kaiFix/kaiEndpoint';
+
+suite('Kai / Endpoint', () => {
+
+    function configuration(options: { [option: string]: any }): any {
+        return { id: 'config', options };
+    }
+
+    test('uses the backend options of the configuration', () => {
+        const endpoint = resolveKaiEndpoint(configuration({
+            'kai-url': ' http://kai.example.com/api ',
+            'kai-headers': ['Authorization: Bearer abc:def', 'X-Trace:  1 '],
+            'kai-timeout': '5000'
+        }));
+        assert.equal(endpoint.url, 'http://kai.example.com/api');
+        assert.equal(endpoint.headers['Authorization'], 'Bearer abc:def');
+        assert.equal(endpoint.headers['X-Trace'], '1');
+        assert.equal(endpoint.timeout, 5000);
+        assert.equal(endpoint.configurationId, 'config');
+    });
+
+    test('falls back to the default timeout', () => {
+        assert.equal(resolveKaiEndpoint(configuration({ 'kai-timeout': '' })).timeout, DEFAULT_KAI_TIMEOUT);
+    });
+
+    test('rejects URLs that are not absolute http URLs', () => {
+        ['kai.example.com', 'ftp://kai.example.com', 'http://kai.example.com/?debug=1', 'http://kai.example.com/#top'].forEach(url => {
+            assert.throws(() => resolveKaiEndpoint(configuration({ 'kai-url': url })), /Invalid Kai backend URL/, url);
+        });
+    });
+
+    test('rejects malformed header lines', () => {
+        ['Authorization', ': Bearer abc', 'Bad Name: value'].forEach(header => {
+            assert.throws(() => resolveKaiEndpoint(configuration({ 'kai-headers': [header] })), /Invalid Kai request header/, header);
+        });
+    });
+
+    test('rejects timeouts that are not a positive number of milliseconds', () => {
+        ['0', '-5', '1.5', 'soon'].forEach(timeout => {
+            assert.throws(() => resolveKaiEndpoint(configuration({ 'kai-timeout': timeout })), /Invalid Kai request timeout/, timeout);
+        });
+    });
+
+    test('resolves routes below the path of the backend URL', () => {
+        const endpoint = { url: 'http://kai.example.com/api', headers: {}, timeout: 1000 };
+        assert.equal(getKaiRequestUrl(endpoint, '/health'), 'http://kai.example.com/api/health');
+        assert.equal(getKaiRequestUrl({ ...endpoint, url: 'http://kai.example.com/api/' }, 'health'), 'http://kai.example.com/api/health');
+    });
+});
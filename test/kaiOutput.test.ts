@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { findSection, getUpdatedFile, hasUpdatedFile, KaiOutputError, parseLLMOutput } from '../src/kaiFix/kaiOutput';
+
+suite('Kai / LLM Output', () => {
+
+    const recorded = (name: string): string => {
+        const file = path.join(__dirname, '..', '..', 'test', 'kai-responses', `${name}.json`);
+        return JSON.parse(fs.readFileSync(file, 'utf8')).llm_output;
+    };
+
+    const assertOutputError = (output: string, pattern: RegExp) => {
+        try {
+            getUpdatedFile(output);
+            assert.fail('expected an output error');
+        }
+        catch (e) {
+            assert.ok(e instanceof KaiOutputError, `unexpected error ${e}`);
+            assert.ok(pattern.test(e.message), e.message);
+        }
+    };
+
+    test('splits the output into sections with their code blocks', () => {
+        const parsed = parseLLMOutput(recorded('java-basic'));
+        assert.deepEqual(parsed.sections.map(section => section.title), ['Reasoning', 'Updated File', 'Additional Information']);
+        assert.equal(parsed.sections[1].blocks[0].language, 'java');
+        assert.deepEqual(findSection(parsed, 'additional information').blocks, [
+            { language: 'xml', content: '<persistence-unit name="primary"/>\n' }
+        ]);
+        assert.ok(findSection(parsed, 'Reasoning').text.startsWith('1. The `javax.ejb.Stateless`'));
+    });
+
+    test('returns the updated file without fences and keeps escapes in the code', () => {
+        const file = getUpdatedFile(recorded('java-basic'));
+        assert.ok(file.startsWith('package com.redhat.coolstore.service;\n'));
+        assert.ok(file.endsWith('}\n'));
+        assert.ok(file.includes('return "catalog\\n";'));
+    });
+
+    test('keeps lines that look like headings or separators inside the code', () => {
+        const file = getUpdatedFile(recorded('java-equals-line'));
+        assert.ok(file.includes('\n== other.id\n'));
+        assert.ok(file.includes('\n## Not a heading, part of a comment\n'));
+        assert.ok(file.includes('String fence = "```";'));
+        assert.ok(file.endsWith('}\n'));
+    });
+
+    test('reports a missing updated file section', () => {
+        assertOutputError(recorded('missing-updated-file'), /no "Updated File" section, found: Reasoning, Additional Information/);
+    });
+
+    test('reports output that was cut off', () => {
+        const output = recorded('truncated');
+        assert.equal(hasUpdatedFile(output), false);
+        assertOutputError(output, /not closed/);
+    });
+
+    test('reports a section without code or with an empty block', () => {
+        assertOutputError('## Updated File\nNo changes needed.\n', /contains no code block/);
+        assertOutputError('## Updated File\n```java\n\n```\n', /is empty/);
+        assertOutputError('', /no sections/);
+    });
+
+    test('unescapes newlines of older responses', () => {
+        assert.equal(getUpdatedFile(recorded('escaped-newlines')), 'class Foo {\n}\n');
+    });
+
+    test('closes a block only with a fence at least as long as the opening one', () => {
+        const output = '## Updated File\n````markdown\n# Title\n```sh\nls\n```\n````\n';
+        assert.equal(getUpdatedFile(output), '# Title\n```sh\nls\n```\n');
+        assert.equal(parseLLMOutput(output).sections.length, 1);
+    });
+});
@@ -0,0 +1,47 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import { runQueue } from '../src/kaiFix/kaiQueue';
+import { AbortController } from 'abort-controller';
+
+suite('Kai / Queue', () => {
+
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    test('limits the number of workers in flight', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const results = await runQueue([1, 2, 3, 4, 5], 2, async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(5);
+            running--;
+        });
+        assert.equal(maxRunning, 2);
+        assert.deepEqual(results.map(result => result.item).sort(), [1, 2, 3, 4, 5]);
+    });
+
+    test('reports failures without stopping the queue', async () => {
+        const done = [];
+        const results = await runQueue(['a', 'b', 'c'], 1, async item => {
+            if (item === 'b') {
+                throw new Error('boom');
+            }
+        }, result => done.push(result.item));
+        assert.deepEqual(done, ['a', 'b', 'c']);
+        assert.equal(results[1].error.message, 'boom');
+        assert.equal(results[0].error, undefined);
+    });
+
+    test('skips items not started when cancelled', async () => {
+        const controller = new AbortController();
+        const results = await runQueue([1, 2, 3], 1, async item => {
+            if (item === 1) {
+                controller.abort();
+            }
+        }, undefined, controller.signal);
+        assert.deepEqual(results.map(result => result.item), [1]);
+    });
+});
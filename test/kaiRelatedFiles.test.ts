@@ -0,0 +1,25 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as assert from 'assert';
+import { IHint } from '../src/server/analyzerModel';
+import { collectRelatedFiles } from '../src/kaiFix/relatedFiles';
+
+suite('Kai / Related Files', () => {
+
+    const hint = (file: string, ruleId: string): IHint => ({ file, ruleId } as any);
+
+    test('collects the other files with incidents of the same rule, most incidents first', () => {
+        const issueByFile = new Map<string, IHint[]>([
+            ['/app/Foo.java', [hint('/app/Foo.java', 'ejb-remote')]],
+            ['/app/Bar.java', [hint('/app/Bar.java', 'ejb-remote')]],
+            ['/app/Baz.java', [hint('/app/Baz.java', 'ejb-remote'), hint('/app/Baz.java', 'ejb-remote')]],
+            ['/app/Other.java', [hint('/app/Other.java', 'jms')]],
+        ]);
+        const incident = issueByFile.get('/app/Foo.java')[0];
+        assert.deepEqual(collectRelatedFiles(incident, issueByFile, 5), ['/app/Baz.java', '/app/Bar.java']);
+        assert.deepEqual(collectRelatedFiles(incident, issueByFile, 1), ['/app/Baz.java']);
+        assert.deepEqual(collectRelatedFiles(incident, issueByFile, 0), []);
+    });
+});